@@ -0,0 +1,156 @@
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider";
+import type { AgentThoughtEvent } from "./dify-chat-schema";
+
+interface AgentToolInvocation {
+  toolCallId: string;
+  toolName: string;
+  input: string;
+  observation?: unknown;
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Splits an agent thought into its tool invocations. Dify joins the names of
+ * parallel tool calls with `;`, and function-calling agents key `tool_input` and
+ * `observation` by tool name.
+ */
+function getToolInvocations(event: AgentThoughtEvent): AgentToolInvocation[] {
+  const toolNames = (event.tool ?? "")
+    .split(";")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const baseId = `${event.id}-${event.position}`;
+  const toolInput = parseJson(event.tool_input ?? "");
+  const observation = event.observation ? parseJson(event.observation) : undefined;
+
+  return toolNames.map((toolName, index) => {
+    const input =
+      isRecord(toolInput) && toolName in toolInput
+        ? toolInput[toolName]
+        : toolInput;
+    let toolObservation: unknown = undefined;
+    if (event.observation) {
+      toolObservation =
+        isRecord(observation) && toolName in observation
+          ? observation[toolName]
+          : observation ?? event.observation;
+    }
+
+    return {
+      toolCallId: toolNames.length > 1 ? `${baseId}-${index}` : baseId,
+      toolName,
+      input:
+        input === undefined
+          ? JSON.stringify(event.tool_input ? { input: event.tool_input } : {})
+          : JSON.stringify(isRecord(input) ? input : { input }),
+      observation: toolObservation,
+    };
+  });
+}
+
+/**
+ * Maps `agent_thought` events to provider-executed tool calls, tool results and reasoning.
+ * Dify repeats a thought while it progresses, so every part is emitted only once.
+ *
+ * The AI SDK rejects tool calls of tools that the call does not declare, so only the
+ * tools in `toolNames` become tool parts. Other tools remain in the `raw` events.
+ */
+export class DifyAgentThoughtMapper {
+  private readonly emittedToolCalls = new Set<string>();
+  private readonly emittedToolResults = new Set<string>();
+  private readonly emittedThoughtLength = new Map<string, number>();
+  private activeReasoningId: string | undefined;
+
+  constructor(private readonly toolNames: readonly string[] = []) {}
+
+  /**
+   * @param event the agent thought
+   * @param answerText answer text streamed since the previous thought. A thought that
+   * only repeats it is not emitted as reasoning.
+   */
+  map(
+    event: AgentThoughtEvent,
+    answerText: string = ""
+  ): LanguageModelV2StreamPart[] {
+    const parts: LanguageModelV2StreamPart[] = [];
+    const thought = event.thought ?? "";
+    const emittedLength = this.emittedThoughtLength.get(event.id) ?? 0;
+
+    if (thought.length > emittedLength && thought.trim() !== answerText.trim()) {
+      const reasoningId = `thought-${event.id}`;
+      if (this.activeReasoningId !== reasoningId) {
+        parts.push(...this.close());
+        parts.push({ type: "reasoning-start", id: reasoningId });
+        this.activeReasoningId = reasoningId;
+      }
+      parts.push({
+        type: "reasoning-delta",
+        id: reasoningId,
+        delta: thought.slice(emittedLength),
+      });
+    }
+    this.emittedThoughtLength.set(event.id, Math.max(thought.length, emittedLength));
+
+    for (const invocation of getToolInvocations(event)) {
+      if (!this.toolNames.includes(invocation.toolName)) {
+        continue;
+      }
+      if (!this.emittedToolCalls.has(invocation.toolCallId)) {
+        this.emittedToolCalls.add(invocation.toolCallId);
+        parts.push(...this.close());
+        parts.push({
+          type: "tool-call",
+          toolCallId: invocation.toolCallId,
+          toolName: invocation.toolName,
+          input: invocation.input,
+          providerExecuted: true,
+          providerMetadata: {
+            dify: {
+              thoughtId: event.id,
+              position: event.position,
+              toolLabel: event.tool_labels?.[invocation.toolName] ?? null,
+            },
+          },
+        });
+      }
+
+      if (
+        invocation.observation !== undefined &&
+        !this.emittedToolResults.has(invocation.toolCallId)
+      ) {
+        this.emittedToolResults.add(invocation.toolCallId);
+        parts.push({
+          type: "tool-result",
+          toolCallId: invocation.toolCallId,
+          toolName: invocation.toolName,
+          result: invocation.observation,
+          providerExecuted: true,
+        });
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * Ends the reasoning block of the current thought, if one is open.
+   */
+  close(): LanguageModelV2StreamPart[] {
+    if (!this.activeReasoningId) {
+      return [];
+    }
+    const id = this.activeReasoningId;
+    this.activeReasoningId = undefined;
+    return [{ type: "reasoning-end", id }];
+  }
+}
@@ -0,0 +1,262 @@
+import { describe, it, expect } from "vitest";
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import { createDifyProvider } from "./dify-provider";
+import { getDifyInputProblems } from "./dify-app";
+
+const parametersResponse = {
+  opening_statement: "Hello!",
+  user_input_form: [
+    {
+      "text-input": {
+        label: "Name",
+        variable: "name",
+        required: true,
+        max_length: 5,
+        default: "",
+      },
+    },
+    {
+      select: {
+        label: "Tone",
+        variable: "tone",
+        required: false,
+        options: ["formal", "casual"],
+        default: "",
+      },
+    },
+  ],
+};
+
+const infoResponse = {
+  name: "Support bot",
+  description: "Answers questions",
+  tags: [],
+  mode: "advanced-chat",
+};
+
+// answers /parameters and /info, and a blocking chat message otherwise
+function createAppFetch() {
+  const calls: { url: string; options: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, options });
+    const body = url.endsWith("/parameters")
+      ? parametersResponse
+      : url.endsWith("/info")
+        ? infoResponse
+        : {
+            event: "message",
+            answer: "Hi",
+            id: "msg-1",
+            conversation_id: "conv-1",
+            message_id: "msg-1",
+            task_id: "task-1",
+            metadata: { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+          };
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+  return { calls, fetch: fetch as any };
+}
+
+function makeProvider(fetch: any) {
+  return createDifyProvider({
+    baseURL: "https://mock.api/v1",
+    apiKey: "app-key",
+    fetch,
+  });
+}
+
+const prompt = [
+  { role: "user" as const, content: [{ type: "text" as const, text: "Hi" }] },
+];
+
+describe("provider.getAppParameters", () => {
+  it("should load the input fields and mode of an app", async () => {
+    const { calls, fetch } = createAppFetch();
+
+    const parameters = await makeProvider(fetch).getAppParameters("app-1");
+
+    expect(calls.map((call) => call.url).sort()).toEqual([
+      "https://mock.api/v1/info",
+      "https://mock.api/v1/parameters",
+    ]);
+    expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-key");
+    expect(parameters.mode).toBe("advanced-chat");
+    expect(parameters.name).toBe("Support bot");
+    expect(parameters.parameters.opening_statement).toBe("Hello!");
+    expect(parameters.inputFields).toEqual([
+      {
+        type: "text-input",
+        variable: "name",
+        label: "Name",
+        required: true,
+        maxLength: 5,
+        options: undefined,
+        default: "",
+      },
+      {
+        type: "select",
+        variable: "tone",
+        label: "Tone",
+        required: false,
+        maxLength: undefined,
+        options: ["formal", "casual"],
+        default: "",
+      },
+    ]);
+  });
+
+  it("should cache the parameters per app and API key", async () => {
+    const { calls, fetch } = createAppFetch();
+    const provider = makeProvider(fetch);
+
+    await provider.getAppParameters("app-1");
+    await provider.getAppParameters("app-1");
+    expect(calls).toHaveLength(2);
+
+    await provider.getAppParameters("app-1", { apiKey: "other-key" });
+    expect(calls).toHaveLength(4);
+    expect(calls[3].options.headers["Authorization"]).toBe("Bearer other-key");
+  });
+
+  it("should not cache failed loads", async () => {
+    let failing = true;
+    const { calls, fetch: appFetch } = createAppFetch();
+    const fetch = async (url: string, options: any) => {
+      if (failing) {
+        return new Response(
+          JSON.stringify({ code: "unauthorized", message: "Invalid key", status: 401 }),
+          { status: 401, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      return appFetch(url, options);
+    };
+    const provider = makeProvider(fetch);
+
+    await expect(provider.getAppParameters("app-1")).rejects.toThrow();
+
+    failing = false;
+    const parameters = await provider.getAppParameters("app-1");
+    expect(parameters.mode).toBe("advanced-chat");
+    expect(calls).toHaveLength(2);
+  });
+});
+
+describe("getDifyInputProblems", () => {
+  const { user_input_form } = parametersResponse;
+  const inputFields = [
+    { type: "text-input", variable: "name", required: true, maxLength: 5 },
+    {
+      type: "select",
+      variable: "tone",
+      required: false,
+      options: user_input_form[1].select!.options,
+    },
+  ];
+
+  it("should accept valid inputs", () => {
+    expect(getDifyInputProblems({ name: "Ada", tone: "casual" }, inputFields)).toEqual([]);
+  });
+
+  it("should allow optional inputs to be missing", () => {
+    expect(getDifyInputProblems({ name: "Ada" }, inputFields)).toEqual([]);
+  });
+
+  it("should list missing, invalid and too long inputs", () => {
+    expect(getDifyInputProblems({ name: "" }, inputFields)).toEqual([
+      '"name" is required',
+    ]);
+    expect(
+      getDifyInputProblems({ name: "Adelaide", tone: "angry" }, inputFields)
+    ).toEqual([
+      '"name" must be at most 5 characters long',
+      '"tone" must be one of "formal", "casual"',
+    ]);
+  });
+});
+
+describe("validateInputs", () => {
+  it("should throw an InvalidArgumentError before sending the request", async () => {
+    const { calls, fetch } = createAppFetch();
+    const model = makeProvider(fetch).chat("app-1", {
+      responseMode: "blocking",
+      validateInputs: true,
+      inputs: { tone: "angry" },
+    });
+
+    const error = await model.doGenerate({ prompt }).catch((error) => error);
+
+    expect(InvalidArgumentError.isInstance(error)).toBe(true);
+    expect(error.argument).toBe("inputs");
+    expect(error.message).toBe(
+      'Invalid inputs for the Dify app: "name" is required; "tone" must be one of "formal", "casual"'
+    );
+    expect(calls.some((call) => call.url.endsWith("/chat-messages"))).toBe(false);
+  });
+
+  it("should not upload files of invalid requests", async () => {
+    const { calls, fetch } = createAppFetch();
+    const provider = makeProvider(fetch);
+    const filePrompt = [
+      {
+        role: "user" as const,
+        content: [
+          { type: "text" as const, text: "What is this?" },
+          { type: "file" as const, mediaType: "image/png", data: new Uint8Array([1, 2, 3]) },
+        ],
+      },
+    ];
+
+    for (const model of [
+      provider.chat("app-1", { responseMode: "blocking", validateInputs: true }),
+      provider.completion("app-1", { responseMode: "blocking", validateInputs: true }),
+    ]) {
+      const error = await model.doGenerate({ prompt: filePrompt }).catch((error) => error);
+      expect(InvalidArgumentError.isInstance(error)).toBe(true);
+    }
+
+    expect(calls.some((call) => call.url.endsWith("/files/upload"))).toBe(false);
+  });
+
+  it("should send valid inputs and load the parameters once", async () => {
+    const { calls, fetch } = createAppFetch();
+    const model = makeProvider(fetch).chat("app-1", {
+      responseMode: "blocking",
+      validateInputs: true,
+    });
+    const providerOptions = { dify: { inputs: { name: "Ada" } } };
+
+    await model.doGenerate({ prompt, providerOptions });
+    await model.doGenerate({ prompt, providerOptions });
+
+    expect(calls.filter((call) => call.url.endsWith("/parameters"))).toHaveLength(1);
+    expect(calls.filter((call) => call.url.endsWith("/chat-messages"))).toHaveLength(2);
+  });
+
+  it("should validate the inputs of workflow and completion models", async () => {
+    const { fetch } = createAppFetch();
+    const provider = makeProvider(fetch);
+
+    for (const model of [
+      provider.workflow("app-1", { validateInputs: true }),
+      provider.completion("app-1", { validateInputs: true }),
+    ]) {
+      const error = await model.doStream({ prompt }).catch((error) => error);
+      expect(InvalidArgumentError.isInstance(error)).toBe(true);
+      expect(error.message).toContain('"name" is required');
+    }
+  });
+
+  it("should not load the parameters without the setting", async () => {
+    const { calls, fetch } = createAppFetch();
+    const model = makeProvider(fetch).chat("app-1", { responseMode: "blocking" });
+
+    await model.doGenerate({ prompt });
+
+    expect(calls.map((call) => call.url)).toEqual([
+      "https://mock.api/v1/chat-messages",
+    ]);
+  });
+});
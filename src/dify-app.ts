@@ -0,0 +1,210 @@
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import {
+  createJsonResponseHandler,
+  getFromApi,
+} from "@ai-sdk/provider-utils";
+import {
+  appInfoResponseSchema,
+  appParametersResponseSchema,
+  type AppInfoResponse,
+  type AppParametersResponse,
+} from "./dify-chat-schema";
+import { createDifyEndpoints } from "./dify-endpoints";
+import { difyFailedResponseHandler } from "./dify-error";
+import type { DifyClientConfig, DifyModelConfig } from "./dify-model-config";
+
+/**
+ * An input variable declared in the `user_input_form` of an app.
+ */
+export interface DifyInputField {
+  // control type, e.g. `text-input`, `paragraph`, `select`, `number` or `file`
+  type: string;
+  variable: string;
+  label?: string;
+  required: boolean;
+  maxLength?: number;
+  // allowed values of a `select` field
+  options?: string[];
+  default?: unknown;
+}
+
+/**
+ * Input variables and mode of a Dify app, read from `/parameters` and `/info`.
+ */
+export interface DifyAppParameters {
+  // app mode, e.g. `chat`, `advanced-chat`, `agent-chat`, `workflow` or `completion`
+  mode?: string;
+  name?: string;
+  description?: string;
+  inputFields: DifyInputField[];
+  // the raw responses, e.g. with the opening statement and the enabled features
+  parameters: AppParametersResponse;
+  info: AppInfoResponse;
+}
+
+export interface DifyAppParametersOptions {
+  // API key of the app, when it differs from the provider's default key
+  apiKey?: string;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Loads the parameters and info of the app that the headers authenticate.
+ */
+export async function getDifyAppParameters({
+  baseURL,
+  headers,
+  fetch,
+  abortSignal,
+}: {
+  baseURL: string;
+  headers: Record<string, string | undefined>;
+  fetch?: DifyClientConfig["fetch"];
+  abortSignal?: AbortSignal;
+}): Promise<DifyAppParameters> {
+  const endpoints = createDifyEndpoints(baseURL);
+  const [{ value: parameters }, { value: info }] = await Promise.all([
+    getFromApi({
+      url: endpoints.parameters,
+      headers,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        appParametersResponseSchema as any
+      ),
+      abortSignal,
+      fetch,
+    }),
+    getFromApi({
+      url: endpoints.info,
+      headers,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        appInfoResponseSchema as any
+      ),
+      abortSignal,
+      fetch,
+    }),
+  ]);
+
+  const appParameters = parameters as AppParametersResponse;
+  const appInfo = info as AppInfoResponse;
+  return {
+    mode: appInfo.mode,
+    name: appInfo.name,
+    description: appInfo.description ?? undefined,
+    inputFields: appParameters.user_input_form.flatMap((entry) =>
+      Object.entries(entry).map(([type, field]) => ({
+        type,
+        variable: field.variable,
+        label: field.label,
+        required: field.required ?? false,
+        maxLength: field.max_length ?? undefined,
+        options: field.options,
+        default: field.default,
+      }))
+    ),
+    parameters: appParameters,
+    info: appInfo,
+  };
+}
+
+/**
+ * Loads app parameters once per app and API key. Failed loads are not cached.
+ */
+export function createDifyAppParametersCache(config: DifyClientConfig) {
+  const cache = new Map<string, Promise<DifyAppParameters>>();
+
+  return (
+    appId: string,
+    { apiKey, abortSignal }: DifyAppParametersOptions = {}
+  ): Promise<DifyAppParameters> => {
+    const key = JSON.stringify([appId, apiKey ?? null]);
+    let parameters = cache.get(key);
+    if (parameters == null) {
+      parameters = getDifyAppParameters({
+        baseURL: config.baseURL,
+        headers: config.headers(apiKey),
+        fetch: config.fetch,
+        abortSignal,
+      });
+      cache.set(key, parameters);
+      parameters.catch(() => cache.delete(key));
+    }
+    return parameters;
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value == null || value === "";
+}
+
+/**
+ * Lists the problems of inputs against the input fields of an app: missing required
+ * variables, values outside the options of a `select`, and text over its max length.
+ */
+export function getDifyInputProblems(
+  inputs: Record<string, unknown>,
+  inputFields: DifyInputField[]
+): string[] {
+  const problems: string[] = [];
+
+  for (const field of inputFields) {
+    const value = inputs[field.variable];
+    if (isEmpty(value)) {
+      if (field.required) {
+        problems.push(`"${field.variable}" is required`);
+      }
+      continue;
+    }
+
+    if (
+      field.type === "select" &&
+      field.options != null &&
+      !field.options.includes(value as string)
+    ) {
+      problems.push(
+        `"${field.variable}" must be one of ${field.options
+          .map((option) => JSON.stringify(option))
+          .join(", ")}`
+      );
+    }
+    if (
+      field.maxLength != null &&
+      typeof value === "string" &&
+      value.length > field.maxLength
+    ) {
+      problems.push(
+        `"${field.variable}" must be at most ${field.maxLength} characters long`
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks the inputs of a request against the `user_input_form` of the model's app, and
+ * throws an `InvalidArgumentError` that lists the problems. Used by the `validateInputs`
+ * setting of the language models.
+ */
+export async function validateDifyInputs(
+  config: DifyModelConfig,
+  inputs: Record<string, unknown>,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  const { inputFields } = await (config.getAppParameters?.(abortSignal) ??
+    getDifyAppParameters({
+      baseURL: config.baseURL,
+      headers: config.headers(),
+      fetch: config.fetch,
+      abortSignal,
+    }));
+
+  const problems = getDifyInputProblems(inputs, inputFields);
+  if (problems.length > 0) {
+    throw new InvalidArgumentError({
+      argument: "inputs",
+      message: `Invalid inputs for the Dify app: ${problems.join("; ")}`,
+    });
+  }
+}
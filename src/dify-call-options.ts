@@ -0,0 +1,80 @@
+import type {
+  LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+} from "@ai-sdk/provider";
+
+// call options that configure the model, which is configured in the Dify app instead
+const modelCallOptions = [
+  "temperature",
+  "topP",
+  "topK",
+  "maxOutputTokens",
+  "presencePenalty",
+  "frequencyPenalty",
+  "stopSequences",
+  "seed",
+] as const;
+
+export type DifyMappableCallOption = (typeof modelCallOptions)[number];
+
+/**
+ * Input variables that receive call options, e.g. `{ temperature: "temperature" }` to
+ * let a workflow use the `temperature` of the call.
+ */
+export type DifyCallOptionInputs = Partial<Record<DifyMappableCallOption, string>>;
+
+/**
+ * Sends the mapped call options as inputs, and warns about the call options and tools
+ * that Dify ignores. Values are sent as they are, e.g. `stopSequences` as an array.
+ *
+ * With `agentTools`, function tools declare the Dify agent tools that are surfaced as
+ * tool calls, so they and an `auto` tool choice are not warned about.
+ */
+export function getCallOptionInputs(
+  options: LanguageModelV2CallOptions,
+  mapping: DifyCallOptionInputs = {},
+  warnings: LanguageModelV2CallWarning[],
+  { agentTools = false }: { agentTools?: boolean } = {}
+): Record<string, unknown> {
+  const inputs: Record<string, unknown> = {};
+
+  for (const setting of modelCallOptions) {
+    const value = options[setting];
+    if (value == null) {
+      continue;
+    }
+    const variable = mapping[setting];
+    if (variable != null) {
+      inputs[variable] = value;
+    } else {
+      warnings.push({
+        type: "unsupported-setting",
+        setting,
+        details: "The model is configured in the Dify app. Map the setting to an input variable with callOptionInputs.",
+      });
+    }
+  }
+
+  for (const tool of options.tools ?? []) {
+    if (agentTools && tool.type === "function") {
+      continue;
+    }
+    warnings.push({
+      type: "unsupported-tool",
+      tool,
+      details: "Tools are configured in the Dify app.",
+    });
+  }
+  if (
+    options.toolChoice != null &&
+    !(agentTools && options.toolChoice.type === "auto")
+  ) {
+    warnings.push({
+      type: "unsupported-setting",
+      setting: "toolChoice",
+      details: "Tools are configured in the Dify app.",
+    });
+  }
+
+  return inputs;
+}
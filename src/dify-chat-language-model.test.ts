@@ -1,10 +1,39 @@
 import { describe, it, expect } from "vitest";
 import { DifyChatLanguageModel } from "./dify-chat-language-model";
+import { DifyInvalidParamError, DifyQuotaExceededError } from "./dify-error";
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import { generateText, jsonSchema, tool } from "ai";
 
 function createMockFetch(mockResponse: any) {
   return async () => mockResponse;
 }
 
+function createStreamingFetch(events: any[]) {
+  const text = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+  return createMockFetch({
+    ok: true,
+    headers: new Headers({ "Content-Type": "text/event-stream" }),
+    body: new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(text));
+        controller.close();
+      },
+    }),
+    status: 200,
+  });
+}
+
+async function readAll(stream: ReadableStream<any>) {
+  const parts: any[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return parts;
+}
+
 function makeModel(overrides: any = {}) {
   const mockFetch = overrides.fetch || createMockFetch({});
   return new DifyChatLanguageModel(
@@ -109,7 +138,7 @@ describe("DifyChatLanguageModel", () => {
     expect(finishPart?.providerMetadata?.difyWorkflowData?.messageId).toBe(
       "msg1"
     );
-    expect(finishPart?.usage?.outputTokens).toBe(42);
+    expect(finishPart?.usage?.totalTokens).toBe(42); // workflow_finished only reports total tokens
   });
 
   it("should handle workflow events in streaming mode", async () => {
@@ -162,7 +191,7 @@ describe("DifyChatLanguageModel", () => {
     expect(finishPart?.providerMetadata?.difyWorkflowData?.messageId).toBe(
       "msg1"
     );
-    expect(finishPart?.usage?.outputTokens).toBe(15);
+    expect(finishPart?.usage?.totalTokens).toBe(15);
   });
 
   it("should ignore non-handled event types in streaming mode", async () => {
@@ -444,10 +473,12 @@ describe("DifyChatLanguageModel", () => {
     expect(finishPart?.providerMetadata?.difyWorkflowData?.messageId).toBe(
       "msg1"
     );
-    expect(finishPart?.usage?.outputTokens).toBe(0); // message_end doesn't have data.data.total_tokens
+    expect(finishPart?.usage?.inputTokens).toBe(10);
+    expect(finishPart?.usage?.outputTokens).toBe(25);
+    expect(finishPart?.usage?.totalTokens).toBe(35);
   });
 
-  it("should handle message_end with usage tokens from data field", async () => {
+  it("should prefer message_end usage over data.total_tokens", async () => {
     // Test message_end event with usage tokens in data.total_tokens (like workflow_finished)
     const mockResponseText = `data: {"event":"message_end","id":"msg1","data":{"total_tokens":50},"metadata":{"usage":{"prompt_tokens":10,"completion_tokens":25,"total_tokens":35}},"conversation_id":"conv1","message_id":"msg1"}\n\n`;
 
@@ -487,6 +518,1200 @@ describe("DifyChatLanguageModel", () => {
     expect(finishPart?.providerMetadata?.difyWorkflowData?.messageId).toBe(
       "msg1"
     );
-    expect(finishPart?.usage?.outputTokens).toBe(50); // Should use data.total_tokens, not metadata.usage.total_tokens
+    expect(finishPart?.usage?.outputTokens).toBe(25); // metadata.usage takes precedence over data.total_tokens
+    expect(finishPart?.usage?.totalTokens).toBe(35);
+  });
+
+  describe("workflow execution report", () => {
+    const workflowEvents = [
+      { event: "workflow_started", workflow_run_id: "wfr1", task_id: "task1", data: { id: "wfr1", workflow_id: "wf1", created_at: 100, inputs: {} } },
+      { event: "node_started", workflow_run_id: "wfr1", data: { id: "exec1", node_id: "llm1", node_type: "llm", title: "LLM", index: 1, created_at: 101, inputs: { q: "Hi" } } },
+      { event: "message", answer: "Hello", id: "msg1", conversation_id: "conv1", message_id: "msg1" },
+      { event: "node_finished", workflow_run_id: "wfr1", data: { id: "exec1", node_id: "llm1", node_type: "llm", title: "LLM", index: 1, status: "succeeded", error: null, elapsed_time: 1.5, created_at: 101, finished_at: 103, inputs: { q: "Hi" }, outputs: { text: "Hello", usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } }, execution_metadata: { total_tokens: 5 } } },
+      { event: "node_started", workflow_run_id: "wfr1", data: { id: "exec2", node_id: "tool1", node_type: "tool", title: "Search", index: 2, created_at: 103 } },
+      { event: "node_finished", workflow_run_id: "wfr1", data: { id: "exec2", node_id: "tool1", node_type: "tool", title: "Search", index: 2, status: "failed", error: "timeout", created_at: 103, finished_at: 104 } },
+      { event: "message_end", id: "msg1", conversation_id: "conv1", message_id: "msg1", metadata: { usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } } },
+      { event: "workflow_finished", workflow_run_id: "wfr1", data: { id: "wfr1", workflow_id: "wf1", status: "succeeded", error: "", total_tokens: 5, total_steps: 2, elapsed_time: 5, created_at: 100, finished_at: 105 } },
+    ];
+
+    it("should attach the execution report to the finish part", async () => {
+      const model = makeModel({ fetch: createStreamingFetch(workflowEvents) });
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+
+      const parts = await readAll(stream);
+      const finishParts = parts.filter((p) => p.type === "finish");
+      expect(finishParts).toHaveLength(1);
+      expect(parts[parts.length - 1].type).toBe("finish");
+
+      const dify = finishParts[0].providerMetadata?.dify;
+      expect(dify?.taskId).toBe("task1");
+      expect(dify?.workflowExecution).toMatchObject({
+        workflowId: "wf1",
+        workflowRunId: "wfr1",
+        status: "succeeded",
+        startedAt: 100,
+        finishedAt: 105,
+        duration: 5,
+        totalTokens: 5,
+        totalSteps: 2,
+        nodes: [
+          {
+            nodeId: "llm1",
+            nodeType: "llm",
+            title: "LLM",
+            status: "succeeded",
+            startedAt: 101,
+            finishedAt: 103,
+            duration: 1.5,
+            usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+            inputs: { q: "Hi" },
+            outputs: { text: "Hello" },
+          },
+          {
+            nodeId: "tool1",
+            nodeType: "tool",
+            status: "failed",
+            error: "timeout",
+            duration: 1,
+          },
+        ],
+      });
+    });
+
+    it("should expose the execution report from doGenerate when Dify streams", async () => {
+      const model = makeModel({ fetch: createStreamingFetch(workflowEvents) });
+      const result = await model.doGenerate({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+
+      expect(result.content).toEqual([{ type: "text", text: "Hello" }]);
+      expect(result.finishReason).toBe("stop");
+      expect(result.usage.totalTokens).toBe(5);
+      expect(result.response?.id).toBe("msg1");
+      expect(result.providerMetadata?.difyWorkflowData?.conversationId).toBe("conv1");
+      expect((result.providerMetadata?.dify?.workflowExecution as any)?.nodes).toHaveLength(2);
+    });
+
+    it("should not add an execution report for plain chat apps", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          { event: "message", answer: "Hi", id: "msg1", conversation_id: "conv1", message_id: "msg1" },
+          { event: "message_end", id: "msg1", conversation_id: "conv1", message_id: "msg1", metadata: {} },
+        ]),
+      });
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+
+      const finishPart = (await readAll(stream)).find((p) => p.type === "finish");
+      expect(finishPart?.providerMetadata?.dify?.workflowExecution).toBeUndefined();
+    });
+  });
+
+  describe("agent thoughts", () => {
+    const functionTool = (name: string) => ({ type: "function", name, inputSchema: {} });
+
+    const thought = (overrides: any) => ({
+      event: "agent_thought",
+      conversation_id: "conv1",
+      message_id: "msg1",
+      id: "th1",
+      position: 1,
+      thought: "",
+      observation: "",
+      tool: "",
+      tool_labels: {},
+      tool_input: "",
+      message_files: [],
+      ...overrides,
+    });
+
+    it("should map agent tool usage to provider-executed tool calls and results", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          thought({}),
+          thought({ thought: "I should search the web", tool: "web_search", tool_input: '{"web_search": {"query": "dify"}}' }),
+          thought({ thought: "I should search the web", tool: "web_search", tool_input: '{"web_search": {"query": "dify"}}', observation: "Dify is an LLM app platform" }),
+          thought({ id: "th2", position: 2 }),
+          { event: "agent_message", answer: "Dify is a platform.", id: "msg1", conversation_id: "conv1", message_id: "msg1" },
+          thought({ id: "th2", position: 2, thought: "Dify is a platform." }),
+          { event: "message_end", id: "msg1", conversation_id: "conv1", message_id: "msg1", metadata: {} },
+        ]),
+      });
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "What is dify?" }] }],
+        tools: [functionTool("web_search")],
+      } as any);
+
+      const parts = (await readAll(stream)).filter((p) => p.type !== "raw");
+      expect(parts.filter((p) => p.type === "tool-call")).toEqual([
+        {
+          type: "tool-call",
+          toolCallId: "th1-1",
+          toolName: "web_search",
+          input: '{"query":"dify"}',
+          providerExecuted: true,
+          providerMetadata: { dify: { thoughtId: "th1", position: 1, toolLabel: null } },
+        },
+      ]);
+      expect(parts.filter((p) => p.type === "tool-result")).toEqual([
+        {
+          type: "tool-result",
+          toolCallId: "th1-1",
+          toolName: "web_search",
+          result: "Dify is an LLM app platform",
+          providerExecuted: true,
+        },
+      ]);
+
+      // the thought is emitted once as reasoning, the final thought only repeats the answer
+      const reasoning = parts.filter((p) => p.type.startsWith("reasoning"));
+      expect(reasoning.map((p) => p.type)).toEqual([
+        "reasoning-start",
+        "reasoning-delta",
+        "reasoning-end",
+      ]);
+      expect(reasoning[1].delta).toBe("I should search the web");
+      expect(parts.filter((p) => p.type === "text-delta").map((p) => p.delta)).toEqual([
+        "Dify is a platform.",
+      ]);
+    });
+
+    it("should only emit tool parts of tools declared in the call", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          thought({ thought: "Let me check", tool: "weather;time", tool_input: '{"weather": {}, "time": {}}', observation: '{"weather": "sunny", "time": "12:00"}' }),
+        ]),
+      });
+      const result = await model.doGenerate({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+        tools: [functionTool("time")],
+      } as any);
+
+      expect(result.content.map((part: any) => [part.type, part.toolName])).toEqual([
+        ["reasoning", undefined],
+        ["tool-call", "time"],
+        ["tool-result", "time"],
+      ]);
+    });
+
+    it("should work with generateText whether or not the agent tools are declared", async () => {
+      const agentEvents = () => [
+        thought({ thought: "I should search", tool: "web_search", tool_input: '{"web_search": {"query": "dify"}}', observation: "Dify is a platform" }),
+        { event: "agent_message", answer: "Dify is a platform.", id: "msg1", conversation_id: "conv1", message_id: "msg1" },
+        { event: "message_end", id: "msg1", conversation_id: "conv1", message_id: "msg1", metadata: {} },
+      ];
+
+      const withoutTools = await generateText({
+        model: makeModel({ fetch: createStreamingFetch(agentEvents()) }),
+        prompt: "What is dify?",
+      });
+      expect(withoutTools.text).toBe("Dify is a platform.");
+      expect(withoutTools.reasoningText).toBe("I should search");
+      expect(withoutTools.toolCalls).toEqual([]);
+
+      const withTools = await generateText({
+        model: makeModel({ fetch: createStreamingFetch(agentEvents()) }),
+        prompt: "What is dify?",
+        tools: {
+          web_search: tool({
+            inputSchema: jsonSchema<{ query: string }>({
+              type: "object",
+              properties: { query: { type: "string" } },
+            }),
+          }),
+        },
+      });
+      expect(withTools.text).toBe("Dify is a platform.");
+      expect(withTools.warnings).toEqual([]);
+      expect(withTools.toolCalls).toEqual([
+        expect.objectContaining({ toolName: "web_search", input: { query: "dify" }, providerExecuted: true }),
+      ]);
+      expect(withTools.toolResults).toEqual([
+        expect.objectContaining({ toolName: "web_search", output: "Dify is a platform" }),
+      ]);
+    });
+
+    it("should accept thoughts with null fields", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          thought({ thought: null, observation: null, tool: null, tool_labels: null, tool_input: null, message_files: null }),
+          { event: "agent_message", answer: "Hello", id: "msg1", conversation_id: "conv1", message_id: "msg1" },
+          { event: "message_end", id: "msg1", conversation_id: "conv1", message_id: "msg1", metadata: {} },
+        ]),
+      });
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+
+      const parts = (await readAll(stream)).filter((p) => p.type !== "raw");
+      expect(parts.some((p) => p.type === "error" || p.type.startsWith("tool-"))).toBe(false);
+      expect(parts.filter((p) => p.type === "text-delta").map((p) => p.delta)).toEqual(["Hello"]);
+      expect(parts.find((p) => p.type === "finish")?.finishReason).toBe("stop");
+    });
+
+    it("should split parallel tool calls of a single thought", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          thought({
+            tool: "weather;time",
+            tool_input: '{"weather": {"city": "Paris"}, "time": {"tz": "CET"}}',
+            observation: '{"weather": "sunny", "time": "12:00"}',
+          }),
+        ]),
+      });
+      const result = await model.doGenerate({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+        tools: [functionTool("weather"), functionTool("time")],
+      } as any);
+
+      expect(result.content).toEqual([
+        expect.objectContaining({ type: "tool-call", toolCallId: "th1-1-0", toolName: "weather", input: '{"city":"Paris"}' }),
+        expect.objectContaining({ type: "tool-result", toolCallId: "th1-1-0", result: "sunny" }),
+        expect.objectContaining({ type: "tool-call", toolCallId: "th1-1-1", toolName: "time", input: '{"tz":"CET"}' }),
+        expect.objectContaining({ type: "tool-result", toolCallId: "th1-1-1", result: "12:00" }),
+      ]);
+    });
+  });
+
+  describe("file parts", () => {
+    function createFileFetch() {
+      const calls: { url: string; options: any }[] = [];
+      const fetch = async (url: string, options: any) => {
+        calls.push({ url, options });
+        const body = url.endsWith("/files/upload")
+          ? { id: `upload-${calls.length}`, name: "upload", mime_type: "image/png" }
+          : {
+              id: "id1",
+              answer: "Nice picture",
+              task_id: "task1",
+              conversation_id: "conv1",
+              message_id: "msg1",
+              metadata: { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+            };
+        return {
+          ok: true,
+          headers: new Map([["Content-Type", "application/json"]]),
+          text: async () => JSON.stringify(body),
+          status: 200,
+        };
+      };
+      return { calls, fetch };
+    }
+
+    it("should send URL file parts as remote_url files", async () => {
+      const { calls, fetch } = createFileFetch();
+      const model = makeModel({ fetch });
+
+      await model.doGenerate({
+        prompt: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "Summarize" },
+              { type: "file", mediaType: "application/pdf", data: new URL("https://example.com/report.pdf") },
+              { type: "file", mediaType: "image/jpeg", data: new URL("https://example.com/cat.jpg") },
+            ],
+          },
+        ],
+      } as any);
+
+      expect(calls).toHaveLength(1);
+      expect(JSON.parse(calls[0].options.body).files).toEqual([
+        { type: "document", transfer_method: "remote_url", url: "https://example.com/report.pdf" },
+        { type: "image", transfer_method: "remote_url", url: "https://example.com/cat.jpg" },
+      ]);
+    });
+
+    it("should upload binary and base64 file parts and send them as local_file", async () => {
+      const { calls, fetch } = createFileFetch();
+      const model = makeModel({ fetch });
+
+      await model.doGenerate({
+        prompt: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "What is this?" },
+              { type: "file", mediaType: "image/png", data: new Uint8Array([1, 2, 3]), filename: "pixel.png" },
+              { type: "file", mediaType: "audio/mpeg", data: "AQID" },
+            ],
+          },
+        ],
+        headers: { "user-id": "user-1" },
+      } as any);
+
+      const uploads = calls.filter((call) => call.url === "https://mock.api/files/upload");
+      expect(uploads).toHaveLength(2);
+      const formData = uploads[0].options.body as FormData;
+      expect(formData.get("user")).toBe("user-1");
+      expect((formData.get("file") as File).name).toBe("pixel.png");
+      expect((formData.get("file") as File).type).toBe("image/png");
+      expect(uploads[0].options.headers["Content-Type"]).toBeUndefined();
+      expect(uploads[0].options.headers["Authorization"]).toBe("Bearer test");
+
+      const chatCall = calls.find((call) => call.url === "https://mock.api/chat-messages");
+      expect(JSON.parse(chatCall!.options.body).files).toEqual([
+        { type: "image", transfer_method: "local_file", upload_file_id: "upload-1" },
+        { type: "audio", transfer_method: "local_file", upload_file_id: "upload-2" },
+      ]);
+    });
+
+    it("should let Dify fetch image and PDF URLs itself", () => {
+      const model = makeModel();
+      expect(model.supportedUrls["image/*"][0].test("https://example.com/cat.jpg")).toBe(true);
+      expect(model.supportedUrls["application/pdf"][0].test("https://example.com/a.pdf")).toBe(true);
+    });
+  });
+
+  describe("abort", () => {
+    function createOpenStreamFetch() {
+      const calls: { url: string; options: any }[] = [];
+      const encoder = new TextEncoder();
+      let streamController!: ReadableStreamDefaultController<Uint8Array>;
+      const fetch = async (url: string, options: any) => {
+        calls.push({ url, options });
+        if (url.endsWith("/stop")) {
+          return {
+            ok: true,
+            headers: new Map([["Content-Type", "application/json"]]),
+            text: async () => JSON.stringify({ result: "success" }),
+            status: 200,
+          };
+        }
+        return {
+          ok: true,
+          headers: new Headers({ "Content-Type": "text/event-stream" }),
+          body: new ReadableStream<Uint8Array>({
+            start(controller) {
+              streamController = controller;
+            },
+          }),
+          status: 200,
+        };
+      };
+      const send = (event: any) =>
+        streamController.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      const close = () => streamController.close();
+      return { calls, fetch, send, close };
+    }
+
+    const messageEvent = {
+      event: "message",
+      id: "msg1",
+      message_id: "msg1",
+      conversation_id: "conv1",
+      task_id: "task1",
+      answer: "Hello",
+    };
+
+    it("should stop the task with the same user when the call is aborted", async () => {
+      const { calls, fetch, send } = createOpenStreamFetch();
+      const model = makeModel({ fetch });
+      const abortController = new AbortController();
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+        headers: { "user-id": "user-1" },
+        abortSignal: abortController.signal,
+      } as any);
+      const reader = stream.getReader();
+      send(messageEvent);
+      while ((await reader.read()).value?.type !== "text-delta") {}
+
+      abortController.abort();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(calls).toHaveLength(2);
+      expect(calls[1].url).toBe("https://mock.api/chat-messages/task1/stop");
+      expect(JSON.parse(calls[1].options.body)).toEqual({ user: "user-1" });
+    });
+
+    it("should not stop the task once the stream has finished", async () => {
+      const { calls, fetch, send, close } = createOpenStreamFetch();
+      const model = makeModel({ fetch });
+      const abortController = new AbortController();
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+        abortSignal: abortController.signal,
+      } as any);
+      send(messageEvent);
+      send({ event: "message_end", id: "msg1", message_id: "msg1", task_id: "task1" });
+      close();
+      await readAll(stream);
+
+      abortController.abort();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(calls).toHaveLength(1);
+    });
+  });
+
+  describe("suggested questions", () => {
+    function createRoutingFetch(chatResponse: () => any) {
+      const calls: { url: string; options: any }[] = [];
+      const fetch = async (url: string, options: any) => {
+        calls.push({ url, options });
+        if (url.includes("/suggested")) {
+          return new Response(
+            JSON.stringify({ result: "success", data: ["Will it rain?", "And tomorrow?"] }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+          );
+        }
+        return chatResponse();
+      };
+      return { calls, fetch: fetch as any };
+    }
+
+    const streamResponse = () => {
+      const events = [
+        { event: "message", id: "msg1", message_id: "msg1", conversation_id: "conv1", answer: "Sunny" },
+        { event: "message_end", id: "msg1", message_id: "msg1", conversation_id: "conv1" },
+      ];
+      return new Response(
+        events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(""),
+        { status: 200, headers: { "Content-Type": "text/event-stream" } }
+      );
+    };
+
+    const prompt = [{ role: "user", content: [{ type: "text", text: "Weather?" }] }];
+
+    it("should add suggested questions to the finish part after message_end", async () => {
+      const { calls, fetch } = createRoutingFetch(streamResponse);
+      const model = new DifyChatLanguageModel(
+        "test-model",
+        { suggestedQuestions: true },
+        { provider: "dify", baseURL: "https://mock.api", headers: () => ({}), fetch }
+      );
+
+      const { stream } = await model.doStream({
+        prompt,
+        headers: { "user-id": "user-1" },
+      } as any);
+      const parts = await readAll(stream);
+
+      expect(calls[1].url).toBe("https://mock.api/messages/msg1/suggested?user=user-1");
+      const finishPart = parts.find((p) => p.type === "finish");
+      expect(finishPart.providerMetadata.dify.suggestedQuestions).toEqual([
+        "Will it rain?",
+        "And tomorrow?",
+      ]);
+    });
+
+    it("should add suggested questions to a blocking response", async () => {
+      const { fetch } = createRoutingFetch(
+        () =>
+          new Response(
+            JSON.stringify({
+              id: "msg1",
+              answer: "Sunny",
+              task_id: "task1",
+              conversation_id: "conv1",
+              message_id: "msg1",
+              metadata: { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+            }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+          )
+      );
+      const model = new DifyChatLanguageModel(
+        "test-model",
+        { responseMode: "blocking", suggestedQuestions: true },
+        { provider: "dify", baseURL: "https://mock.api", headers: () => ({}), fetch }
+      );
+
+      const result = await model.doGenerate({ prompt } as any);
+
+      expect(result.providerMetadata?.dify?.suggestedQuestions).toEqual([
+        "Will it rain?",
+        "And tomorrow?",
+      ]);
+    });
+
+    it("should not load suggested questions unless enabled", async () => {
+      const { calls, fetch } = createRoutingFetch(streamResponse);
+      const model = makeModel({ fetch });
+
+      const { stream } = await model.doStream({ prompt } as any);
+      const parts = await readAll(stream);
+
+      expect(calls).toHaveLength(1);
+      const finishPart = parts.find((p) => p.type === "finish");
+      expect(finishPart.providerMetadata.dify).not.toHaveProperty("suggestedQuestions");
+    });
+  });
+
+  describe("tts audio", () => {
+    const events = [
+      { event: "message", id: "msg1", message_id: "msg1", conversation_id: "conv1", answer: "Hi" },
+      { event: "tts_message", message_id: "msg1", task_id: "task1", audio: "SUQz", created_at: 1 },
+      { event: "tts_message", message_id: "msg1", task_id: "task1", audio: "AAEC", created_at: 1 },
+      { event: "tts_message_end", message_id: "msg1", task_id: "task1", audio: "", created_at: 1 },
+      { event: "message_end", id: "msg1", message_id: "msg1", conversation_id: "conv1" },
+    ];
+
+    it("should emit tts_message audio as file parts when enabled", async () => {
+      const model = new DifyChatLanguageModel(
+        "test-model",
+        { ttsAudio: true },
+        {
+          provider: "dify",
+          baseURL: "https://mock.api",
+          headers: () => ({}),
+          fetch: createStreamingFetch(events) as any,
+        }
+      );
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+      } as any);
+      const parts = await readAll(stream);
+
+      expect(parts.filter((p) => p.type === "file")).toEqual([
+        { type: "file", mediaType: "audio/mpeg", data: "SUQz" },
+        { type: "file", mediaType: "audio/mpeg", data: "AAEC" },
+      ]);
+    });
+
+    it("should keep tts_message events as raw parts by default", async () => {
+      const model = makeModel({ fetch: createStreamingFetch(events) });
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+      } as any);
+      const parts = await readAll(stream);
+
+      expect(parts.filter((p) => p.type === "file")).toEqual([]);
+      expect(
+        parts.filter((p) => p.type === "raw" && p.rawValue.event === "tts_message")
+      ).toHaveLength(2);
+    });
+  });
+
+  describe("retriever resources", () => {
+    const resource = {
+      position: 1,
+      dataset_id: "ds1",
+      dataset_name: "Handbook",
+      document_id: "doc1",
+      document_name: "vacation-policy.pdf",
+      segment_id: "seg1",
+      score: 0.87,
+      content: "Employees get 25 days of vacation.",
+    };
+    const expectedSource = {
+      type: "source",
+      sourceType: "document",
+      id: "seg1",
+      mediaType: "text/plain",
+      title: "vacation-policy.pdf",
+      filename: "vacation-policy.pdf",
+      providerMetadata: {
+        dify: {
+          position: 1,
+          datasetId: "ds1",
+          datasetName: "Handbook",
+          documentId: "doc1",
+          documentName: "vacation-policy.pdf",
+          segmentId: "seg1",
+          score: 0.87,
+          content: "Employees get 25 days of vacation.",
+        },
+      },
+    };
+    const prompt = [{ role: "user", content: [{ type: "text", text: "How much vacation?" }] }];
+
+    it("should emit retriever resources as document sources when streaming", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          { event: "message", id: "msg1", message_id: "msg1", conversation_id: "conv1", answer: "25 days" },
+          {
+            event: "message_end",
+            id: "msg1",
+            message_id: "msg1",
+            conversation_id: "conv1",
+            metadata: { retriever_resources: [resource] },
+          },
+        ]),
+      });
+
+      const { stream } = await model.doStream({ prompt } as any);
+      const parts = await readAll(stream);
+
+      expect(parts.filter((p) => p.type === "source")).toEqual([expectedSource]);
+    });
+
+    it("should add retriever resources to the content of a blocking response", async () => {
+      const model = makeModel({
+        fetch: createMockFetch({
+          ok: true,
+          headers: new Map([["Content-Type", "application/json"]]),
+          text: async () =>
+            JSON.stringify({
+              id: "msg1",
+              answer: "25 days",
+              task_id: "task1",
+              conversation_id: "conv1",
+              message_id: "msg1",
+              metadata: {
+                usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+                retriever_resources: [resource],
+              },
+            }),
+          status: 200,
+        }),
+      });
+
+      const result = await model.doGenerate({ prompt } as any);
+
+      expect(result.content).toEqual([{ type: "text", text: "25 days" }, expectedSource]);
+    });
+  });
+
+  describe("reasoning", () => {
+    const prompt = [{ role: "user", content: [{ type: "text", text: "2+2?" }] }];
+
+    function createBlockingFetch(answer: string) {
+      return createMockFetch({
+        ok: true,
+        headers: new Map([["Content-Type", "application/json"]]),
+        text: async () =>
+          JSON.stringify({
+            id: "msg1",
+            answer,
+            task_id: "task1",
+            conversation_id: "conv1",
+            message_id: "msg1",
+            metadata: { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+          }),
+        status: 200,
+      });
+    }
+
+    function makeReasoningModel(reasoning: any, fetch: any) {
+      return new DifyChatLanguageModel(
+        "test-model",
+        { responseMode: "blocking", reasoning },
+        { provider: "dify", baseURL: "https://mock.api", headers: () => ({}), fetch }
+      );
+    }
+
+    it("should extract reasoning content in blocking mode", async () => {
+      const model = makeReasoningModel(
+        undefined,
+        createBlockingFetch("<think>\nAdding numbers\n</think>\n\n4")
+      );
+
+      const result = await model.doGenerate({ prompt } as any);
+
+      expect(result.content).toEqual([
+        { type: "reasoning", text: "Adding numbers" },
+        { type: "text", text: "\n\n4" },
+      ]);
+    });
+
+    it("should keep think tags in the text when reasoning is off", async () => {
+      const model = makeReasoningModel(false, createBlockingFetch("<think>Adding</think>4"));
+
+      const result = await model.doGenerate({ prompt } as any);
+
+      expect(result.content).toEqual([{ type: "text", text: "<think>Adding</think>4" }]);
+    });
+
+    it("should detect think tags split across message events", async () => {
+      const answers = ["<th", "ink>\nAdd", "ing\n</", "think>\n4 <"];
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          ...answers.map((answer) => ({ event: "message", id: "msg1", message_id: "msg1", answer })),
+          { event: "message_end", id: "msg1", message_id: "msg1" },
+        ]),
+      });
+
+      const { stream } = await model.doStream({ prompt } as any);
+      const parts = await readAll(stream);
+
+      expect(parts.filter((p) => p.type.startsWith("reasoning"))).toEqual([
+        { type: "reasoning-start", id: "reasoning-1" },
+        { type: "reasoning-delta", id: "reasoning-1", delta: "Add" },
+        { type: "reasoning-delta", id: "reasoning-1", delta: "ing" },
+        { type: "reasoning-end", id: "reasoning-1" },
+      ]);
+      // the held back "<" is flushed at message_end, before the text ends
+      const textParts = parts.filter((p) => p.type.startsWith("text"));
+      expect(textParts.map((p) => p.delta ?? p.type).join("")).toBe("text-start\n4 <text-end");
+    });
+
+    it("should use the configured format when streaming", async () => {
+      const model = new DifyChatLanguageModel(
+        "test-model",
+        { reasoning: "details" },
+        {
+          provider: "dify",
+          baseURL: "https://mock.api",
+          headers: () => ({}),
+          fetch: createStreamingFetch([
+            { event: "message", id: "msg1", message_id: "msg1", answer: "<details open> <summary> Thinking... </summary>\nAdding" },
+            { event: "message", id: "msg1", message_id: "msg1", answer: "\n</details>4" },
+            { event: "message_end", id: "msg1", message_id: "msg1" },
+          ]) as any,
+        }
+      );
+
+      const { stream } = await model.doStream({ prompt } as any);
+      const parts = await readAll(stream);
+
+      expect(parts.filter((p) => p.type === "reasoning-delta").map((p) => p.delta).join("")).toBe(
+        "Adding"
+      );
+      expect(parts.filter((p) => p.type === "text-delta").map((p) => p.delta).join("")).toBe("4");
+    });
+  });
+
+  describe("error events", () => {
+    it("should emit an error part and finish with reason error", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "Partial" },
+          {
+            event: "error",
+            message_id: "msg1",
+            task_id: "task1",
+            status: 400,
+            code: "provider_quota_exceeded",
+            message: "Your quota has been exhausted.",
+          },
+        ]),
+      });
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+      const parts = await readAll(stream);
+      const types = parts.map((p) => p.type).filter((type) => type !== "raw");
+
+      expect(types.slice(-3)).toEqual(["text-end", "error", "finish"]);
+      const errorPart = parts.find((p) => p.type === "error");
+      expect(DifyQuotaExceededError.isInstance(errorPart.error)).toBe(true);
+      expect(errorPart.error.message).toBe("Dify API error: Your quota has been exhausted.");
+      expect(errorPart.error.url).toBe("https://mock.api/chat-messages");
+      expect(errorPart.error.isRetryable).toBe(false);
+      expect(parts.find((p) => p.type === "finish").finishReason).toBe("error");
+    });
+
+    it("should throw the typed error from doGenerate", async () => {
+      const model = makeModel({
+        fetch: createMockFetch({
+          ok: false,
+          headers: new Headers({ "Content-Type": "application/json" }),
+          text: async () =>
+            JSON.stringify({ code: "invalid_param", message: "query is required", status: 400 }),
+          status: 400,
+        }),
+      });
+
+      await expect(
+        model.doGenerate({
+          prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+        } as any)
+      ).rejects.toBeInstanceOf(DifyInvalidParamError);
+    });
+  });
+
+  describe("finish reasons", () => {
+    it("should keep the status of a failed chatflow run", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "Partial" },
+          {
+            event: "workflow_finished",
+            workflow_run_id: "wfr1",
+            task_id: "task1",
+            data: { id: "wfr1", workflow_id: "wf1", status: "failed", error: "LLM node failed", exceptions_count: 0 },
+          },
+        ]),
+      });
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+      const finish = (await readAll(stream)).find((p) => p.type === "finish");
+
+      expect(finish.finishReason).toBe("error");
+      expect(finish.providerMetadata.dify).toMatchObject({ status: "failed", exceptionsCount: 0 });
+    });
+
+    it("should report length when an LLM node hit the token limit", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          {
+            event: "node_finished",
+            workflow_run_id: "wfr1",
+            task_id: "task1",
+            data: { id: "exec1", node_id: "llm", node_type: "llm", status: "succeeded", outputs: { finish_reason: "length" } },
+          },
+          { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "Cut o" },
+          { event: "message_end", id: "msg1", message_id: "msg1", task_id: "task1", metadata: {} },
+        ]),
+      });
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+      const finish = (await readAll(stream)).find((p) => p.type === "finish");
+
+      expect(finish.finishReason).toBe("length");
+    });
+  });
+
+  describe("output moderation", () => {
+    const moderatedEvents = [
+      { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "<think>Hmm</think>Some " },
+      { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "bad words" },
+      {
+        event: "message_replace",
+        message_id: "msg1",
+        task_id: "task1",
+        answer: "Sorry, I can't answer that.",
+        reason: "output_moderation",
+      },
+      { event: "message_end", id: "msg1", message_id: "msg1", task_id: "task1", metadata: {} },
+    ];
+
+    it("should end the moderated text and stream the replacement in a new block", async () => {
+      const model = makeModel({ fetch: createStreamingFetch(moderatedEvents) });
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+      const parts = (await readAll(stream)).filter((p) => p.type !== "raw");
+
+      expect(parts.filter((p) => p.type.startsWith("text-"))).toEqual([
+        { type: "text-start", id: "answer" },
+        { type: "text-delta", id: "answer", delta: "Some " },
+        { type: "text-delta", id: "answer", delta: "bad words" },
+        { type: "text-end", id: "answer" },
+        { type: "text-start", id: "replacement-1", providerMetadata: { dify: { replacement: true } } },
+        { type: "text-delta", id: "replacement-1", delta: "Sorry, I can't answer that." },
+        { type: "text-end", id: "replacement-1" },
+      ]);
+      const finish = parts.find((p) => p.type === "finish");
+      expect(finish.finishReason).toBe("content-filter");
+      expect(finish.providerMetadata.dify).toMatchObject({
+        moderated: true,
+        moderationReason: "output_moderation",
+      });
+    });
+
+    it("should return only the replacement from doGenerate", async () => {
+      const model = makeModel({ fetch: createStreamingFetch(moderatedEvents) });
+
+      const result = await model.doGenerate({
+        prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      } as any);
+
+      expect(result.content).toEqual([{ type: "text", text: "Sorry, I can't answer that." }]);
+      expect(result.finishReason).toBe("content-filter");
+      expect(result.providerMetadata?.dify?.moderated).toBe(true);
+    });
+  });
+
+  describe("history mode", () => {
+    const conversation = [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: [{ type: "text", text: "My name is Ada." }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "reasoning", text: "Greet her." },
+          { type: "text", text: "Hi Ada!" },
+        ],
+      },
+      { role: "user", content: [{ type: "text", text: "What is my name?" }] },
+    ] as any;
+
+    const events = [
+      { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "Ada" },
+      { event: "message_end", id: "msg1", message_id: "msg1", task_id: "task1", metadata: {} },
+    ];
+
+    function makeHistoryModel(settings: any) {
+      const bodies: any[] = [];
+      const fetch = async (url: string, options: any) => {
+        bodies.push(JSON.parse(options.body));
+        return createStreamingFetch(events)();
+      };
+      const model = new DifyChatLanguageModel("test-model", settings, {
+        provider: "dify",
+        baseURL: "https://mock.api",
+        headers: () => ({}),
+        fetch: fetch as any,
+      });
+      return { model, bodies };
+    }
+
+    it("should warn about dropped messages by default", async () => {
+      const { model, bodies } = makeHistoryModel({});
+
+      const { stream } = await model.doStream({ prompt: conversation } as any);
+      const parts = await readAll(stream);
+
+      expect(bodies[0].query).toBe("What is my name?");
+      expect(parts[0]).toEqual({
+        type: "stream-start",
+        warnings: [
+          {
+            type: "other",
+            message: expect.stringContaining("3 earlier prompt message(s) were not sent to Dify"),
+          },
+        ],
+      });
+    });
+
+    it("should not warn when the conversation is continued", async () => {
+      const { model } = makeHistoryModel({});
+
+      const result = await model.doGenerate({
+        prompt: conversation,
+        providerOptions: { dify: { conversationId: "conv1" } },
+      } as any);
+
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should send the history in an input variable", async () => {
+      const { model, bodies } = makeHistoryModel({
+        historyMode: { type: "input", variable: "chat_history" },
+        inputs: { tone: "friendly" },
+      });
+
+      const result = await model.doGenerate({ prompt: conversation } as any);
+
+      expect(result.warnings).toEqual([]);
+      expect(bodies[0].query).toBe("What is my name?");
+      expect(bodies[0].inputs).toEqual({
+        chat_history: "System: Be brief.\n\nUser: My name is Ada.\n\nAssistant: Hi Ada!",
+        tone: "friendly",
+      });
+    });
+
+    it("should put the history in front of the query", async () => {
+      const { model, bodies } = makeHistoryModel({
+        historyMode: { type: "query", prefix: "<history>\n{{history}}\n</history>\n" },
+      });
+
+      await model.doGenerate({ prompt: conversation } as any);
+
+      expect(bodies[0].query).toBe(
+        "<history>\nSystem: Be brief.\n\nUser: My name is Ada.\n\nAssistant: Hi Ada!\n</history>\nWhat is my name?"
+      );
+      expect(bodies[0].inputs).toEqual({});
+    });
+
+    it("should not forward the history of an existing conversation", async () => {
+      const { model, bodies } = makeHistoryModel({ historyMode: { type: "query" } });
+
+      await model.doGenerate({
+        prompt: conversation,
+        providerOptions: { dify: { conversationId: "conv1" } },
+      } as any);
+
+      expect(bodies[0].query).toBe("What is my name?");
+    });
+  });
+
+  describe("provider options", () => {
+    const prompt = [{ role: "user", content: [{ type: "text", text: "Hi" }] }] as any;
+    const events = [
+      { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "Hello" },
+      { event: "message_end", id: "msg1", message_id: "msg1", task_id: "task1", metadata: {} },
+    ];
+
+    function makeCapturingModel(settings: any = {}) {
+      const requests: { headers: Record<string, string>; body: any }[] = [];
+      const fetch = async (url: string, options: any) => {
+        requests.push({ headers: options.headers, body: JSON.parse(options.body) });
+        return createStreamingFetch(events)();
+      };
+      const model = new DifyChatLanguageModel("test-model", settings, {
+        provider: "dify",
+        baseURL: "https://mock.api",
+        headers: () => ({}),
+        fetch: fetch as any,
+      });
+      return { model, requests };
+    }
+
+    it("should map providerOptions.dify to the request body", async () => {
+      const { model, requests } = makeCapturingModel({ inputs: { tone: "friendly" } });
+
+      const result = await model.doGenerate({
+        prompt,
+        providerOptions: {
+          dify: {
+            conversationId: "conv1",
+            user: "user-1",
+            parentMessageId: "msg0",
+            inputs: { topic: "cats" },
+            files: [{ type: "image", transfer_method: "remote_url", url: "https://example.com/cat.png" }],
+            autoGenerateName: false,
+          },
+        },
+      } as any);
+
+      expect(result.warnings).toEqual([]);
+      expect(requests[0].body).toMatchObject({
+        query: "Hi",
+        inputs: { topic: "cats", tone: "friendly" },
+        conversation_id: "conv1",
+        user: "user-1",
+        parent_message_id: "msg0",
+        auto_generate_name: false,
+        files: [{ type: "image", transfer_method: "remote_url", url: "https://example.com/cat.png" }],
+      });
+    });
+
+    it("should still read the deprecated headers and not send them to Dify", async () => {
+      const { model, requests } = makeCapturingModel();
+
+      const { stream } = await model.doStream({
+        prompt,
+        headers: {
+          "chat-id": "conv1",
+          "user-id": "user-1",
+          "parent-message-id": "msg0",
+          "x-trace-id": "trace-1",
+        },
+      } as any);
+      const parts = await readAll(stream);
+
+      expect(requests[0].body).toMatchObject({
+        conversation_id: "conv1",
+        user: "user-1",
+        parent_message_id: "msg0",
+      });
+      expect(requests[0].headers).not.toHaveProperty("chat-id");
+      expect(requests[0].headers).not.toHaveProperty("user-id");
+      expect(requests[0].headers).not.toHaveProperty("parent-message-id");
+      expect(requests[0].headers).toHaveProperty("x-trace-id", "trace-1");
+      expect(parts[0].warnings.map((w: any) => w.message)).toEqual([
+        'The "chat-id" header is deprecated. Use providerOptions.dify.conversationId instead.',
+        'The "user-id" header is deprecated. Use providerOptions.dify.user instead.',
+        'The "parent-message-id" header is deprecated. Use providerOptions.dify.parentMessageId instead.',
+      ]);
+    });
+
+    it("should read the deprecated headers in any letter case", async () => {
+      const { model, requests } = makeCapturingModel();
+
+      const result = await model.doGenerate({
+        prompt,
+        headers: { "Chat-Id": "conv1", "User-Id": "user-1", "Parent-Message-Id": "msg0" },
+      } as any);
+
+      expect(requests[0].body).toMatchObject({
+        conversation_id: "conv1",
+        user: "user-1",
+        parent_message_id: "msg0",
+      });
+      expect(Object.keys(requests[0].headers).map((name) => name.toLowerCase())).not.toContain("chat-id");
+      expect(result.warnings.map((w: any) => w.message)).toEqual([
+        'The "Chat-Id" header is deprecated. Use providerOptions.dify.conversationId instead.',
+        'The "User-Id" header is deprecated. Use providerOptions.dify.user instead.',
+        'The "Parent-Message-Id" header is deprecated. Use providerOptions.dify.parentMessageId instead.',
+      ]);
+    });
+
+    it("should forward unknown keys as inputs with a warning", async () => {
+      const { model, requests } = makeCapturingModel();
+
+      const result = await model.doGenerate({
+        prompt,
+        providerOptions: { dify: { topic: "cats", inputs: { tone: "dry" } } },
+      } as any);
+
+      expect(requests[0].body.inputs).toEqual({ topic: "cats", tone: "dry" });
+      expect(result.warnings).toEqual([
+        {
+          type: "other",
+          message: expect.stringContaining("Unknown providerOptions.dify keys are sent as inputs: topic."),
+        },
+      ]);
+    });
+
+    it("should reject invalid options", async () => {
+      const { model, requests } = makeCapturingModel();
+
+      const promise = model.doGenerate({
+        prompt,
+        providerOptions: { dify: { conversationId: 42, files: [{ type: "image" }] } },
+      } as any);
+
+      await expect(promise).rejects.toBeInstanceOf(InvalidArgumentError);
+      await expect(promise).rejects.toThrow(
+        /Invalid Dify provider options: conversationId: Expected string, received number; files\.0/
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe("unsupported call options", () => {
+    // function tools declare the agent tools, provider-defined tools are ignored
+    const agentTool = { type: "function", name: "weather", inputSchema: { type: "object" } };
+    const tool = { type: "provider-defined", id: "openai.web_search", name: "web_search", args: {} };
+    const callOptions = {
+      prompt: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+      temperature: 0.2,
+      maxOutputTokens: 100,
+      stopSequences: ["END"],
+      tools: [agentTool, tool],
+      toolChoice: { type: "required" },
+    } as any;
+
+    const expectedWarnings = [
+      expect.objectContaining({ type: "unsupported-setting", setting: "temperature" }),
+      expect.objectContaining({ type: "unsupported-setting", setting: "maxOutputTokens" }),
+      expect.objectContaining({ type: "unsupported-setting", setting: "stopSequences" }),
+      expect.objectContaining({ type: "unsupported-tool", tool }),
+      expect.objectContaining({ type: "unsupported-setting", setting: "toolChoice" }),
+    ];
+
+    it("should warn about ignored call options when streaming", async () => {
+      const model = makeModel({
+        fetch: createStreamingFetch([
+          { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "Hello" },
+          { event: "message_end", id: "msg1", message_id: "msg1", task_id: "task1", metadata: {} },
+        ]),
+      });
+
+      const { stream } = await model.doStream(callOptions);
+      const parts = await readAll(stream);
+
+      expect(parts[0]).toEqual({ type: "stream-start", warnings: expectedWarnings });
+    });
+
+    it("should warn about ignored call options of blocking calls", async () => {
+      const model = makeModel({
+        fetch: createMockFetch({
+          ok: true,
+          headers: new Map([["Content-Type", "application/json"]]),
+          text: async () =>
+            JSON.stringify({
+              id: "msg1",
+              answer: "Hello",
+              task_id: "task1",
+              conversation_id: "conv1",
+              message_id: "msg1",
+              metadata: { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+            }),
+          status: 200,
+        }),
+      });
+
+      const result = await model.doGenerate(callOptions);
+
+      expect(result.warnings).toEqual(expectedWarnings);
+    });
   });
 });
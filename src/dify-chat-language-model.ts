@@ -1,63 +1,81 @@
 import {
   APICallError,
+  getErrorMessage,
   type JSONValue,
   type LanguageModelV2,
   type LanguageModelV2CallOptions,
+  type LanguageModelV2CallWarning,
   type LanguageModelV2Content,
   type LanguageModelV2FinishReason,
-  type LanguageModelV2StreamPart,
 } from "@ai-sdk/provider";
 import {
   combineHeaders,
   createEventSourceResponseHandler,
-  createJsonErrorResponseHandler,
-  createJsonResponseHandler,
-  FetchFunction,
   postJsonToApi,
   type ParseResult,
+  type ResponseHandler,
 } from "@ai-sdk/provider-utils";
 import type {DifyChatModelId, DifyChatSettings} from "./dify-chat-settings";
 import {
   completionResponseSchema,
   difyStreamEventSchema,
-  errorResponseSchema, MessageEndEvent,
 } from "./dify-chat-schema";
 import type {DifyStreamEvent} from "./dify-chat-schema";
+import {
+  createChatStreamTransformer,
+  type ChatStreamOptions,
+} from "./dify-chat-stream";
+import {createDifyEndpoints, type DifyEndpoints} from "./dify-endpoints";
+import {
+  DifyConversationNotExistsError,
+  difyFailedResponseHandler,
+} from "./dify-error";
+import {convertToDifyFiles, difySupportedUrls, uploadDifyFile} from "./dify-files";
+import {collectStreamParts, createDifyResponseHandler} from "./dify-response";
+import {stopDifyTask, stopTaskOnAbort} from "./dify-task";
+import {getDifySuggestedQuestions} from "./dify-messages";
+import {convertRetrieverResources} from "./dify-sources";
+import {extractReasoningContent} from "./dify-reasoning";
+import {applyDifyHistory} from "./dify-history";
+import {getCallOptionInputs} from "./dify-call-options";
+import {
+  extractJsonContent,
+  getJsonSchemaInputs,
+  withJsonResponseFormat,
+} from "./dify-json-response";
+import {
+  resolveDifyProviderOptions,
+  type DifyProviderOptions,
+} from "./dify-provider-options";
+import type {DifyModelConfig} from "./dify-model-config";
+import {validateDifyInputs} from "./dify-app";
 import type {z} from "zod";
 
 type CompletionResponse = z.infer<typeof completionResponseSchema>;
-type ErrorResponse = z.infer<typeof errorResponseSchema>;
-
-interface ModelConfig {
-  provider: string;
-  baseURL: string;
-  headers: () => Record<string, string>;
-  fetch?: FetchFunction;
-}
 
-const difyFailedResponseHandler = createJsonErrorResponseHandler({
-  errorSchema: errorResponseSchema as any,
-  errorToMessage: (data: ErrorResponse) => {
-    return `Dify API error: ${data.message}`;
-  },
-});
+// a session of the conversation store
+type DifySession = {
+  key: string;
+  // whether the conversation id of the request was read from the store
+  isStoredConversation: boolean;
+};
 
 export class DifyChatLanguageModel implements LanguageModelV2 {
   readonly specificationVersion = "v2" as const;
   readonly modelId: string;
-  readonly supportedUrls: Record<string, RegExp[]> = {};
+  readonly supportedUrls: Record<string, RegExp[]> = difySupportedUrls;
 
-  private readonly chatMessagesEndpoint: string;
-  private readonly config: ModelConfig;
+  private readonly endpoints: DifyEndpoints;
+  private readonly config: DifyModelConfig;
 
   constructor(
     modelId: DifyChatModelId,
     private settings: DifyChatSettings,
-    config: ModelConfig
+    config: DifyModelConfig
   ) {
     this.modelId = modelId;
     this.config = config;
-    this.chatMessagesEndpoint = this.config.baseURL;
+    this.endpoints = createDifyEndpoints(this.config.baseURL);
     if (!this.settings.responseMode) {
       this.settings.responseMode = "streaming";
     }
@@ -70,46 +88,97 @@ export class DifyChatLanguageModel implements LanguageModelV2 {
   async doGenerate(
     options: LanguageModelV2CallOptions
   ): Promise<Awaited<ReturnType<LanguageModelV2["doGenerate"]>>> {
-    const {abortSignal} = options;
-    const requestBody = this.getRequestBody(options);
-
-    const {responseHeaders, value: data} = await postJsonToApi({
-      url: this.chatMessagesEndpoint,
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: requestBody,
-      abortSignal,
-      failedResponseHandler: difyFailedResponseHandler,
-      successfulResponseHandler: createJsonResponseHandler(
-        completionResponseSchema as any
-      ),
-      fetch: this.config.fetch,
-    });
+    const request = await this.getRequestBody(options);
+    const {warnings, session} = request;
+
+    const {body: requestBody, responseHeaders, value: response} =
+      await this.postChatMessages({
+        options,
+        body: request.body,
+        session,
+        warnings,
+        successfulResponseHandler:
+          createDifyResponseHandler<CompletionResponse>(completionResponseSchema),
+      });
 
-    const typedData = data as CompletionResponse;
-    const content: LanguageModelV2Content[] = [];
+    if (response.type === "stream") {
+      const result = await collectStreamParts(
+        withJsonResponseFormat(
+          response.value.pipeThrough(
+            createChatStreamTransformer(
+              this.getStreamOptions(options, requestBody, session)
+            )
+          ),
+          options.responseFormat
+        )
+      );
+
+      return {
+        ...result,
+        warnings,
+        request: {body: JSON.stringify(requestBody)},
+        response: {
+          id: result.responseId,
+          timestamp: new Date(),
+          headers: responseHeaders,
+        },
+      };
+    }
 
-    // Add text content if available
-    if (typedData.answer) {
-      content.push({
-        type: "text",
-        text: typedData.answer,
-      });
+    const typedData = response.value;
+    const content: LanguageModelV2Content[] = [];
+    // the answer is complete, so a failed write does not fail the call
+    let conversationStoreError: string | undefined;
+    if (session) {
+      try {
+        await this.config.conversationStore?.set(
+          session.key,
+          typedData.conversation_id
+        );
+      } catch (error) {
+        conversationStoreError = getErrorMessage(error);
+      }
     }
+    const suggestedQuestions = this.settings.suggestedQuestions
+      ? await this.getSuggestedQuestions(
+          typedData.message_id,
+          requestBody.user,
+          options
+        ).catch(() => undefined)
+      : undefined;
+
+    // Add text and reasoning content if available
+    content.push(
+      ...extractReasoningContent(typedData.answer, this.settings.reasoning)
+    );
+    content.push(
+      ...convertRetrieverResources(typedData.metadata.retriever_resources)
+    );
 
     return {
-      content,
+      content:
+        options.responseFormat?.type === "json"
+          ? extractJsonContent(content)
+          : content,
       finishReason: "stop" as LanguageModelV2FinishReason,
       usage: {
         inputTokens: typedData.metadata.usage.prompt_tokens,
         outputTokens: typedData.metadata.usage.completion_tokens,
         totalTokens: typedData.metadata.usage.total_tokens,
       },
-      warnings: [],
+      warnings,
       providerMetadata: {
         difyWorkflowData: {
           conversationId: typedData.conversation_id as JSONValue,
           messageId: typedData.message_id as JSONValue,
         },
+        dify: {
+          conversationId: typedData.conversation_id,
+          messageId: typedData.message_id,
+          taskId: typedData.task_id,
+          ...(suggestedQuestions ? {suggestedQuestions} : {}),
+          ...(conversationStoreError != null ? {conversationStoreError} : {}),
+        },
       },
       request: {body: JSON.stringify(requestBody)},
       response: {
@@ -123,235 +192,163 @@ export class DifyChatLanguageModel implements LanguageModelV2 {
   async doStream(
     options: LanguageModelV2CallOptions
   ): Promise<Awaited<ReturnType<LanguageModelV2["doStream"]>>> {
-    const {abortSignal} = options;
-    const requestBody = this.getRequestBody(options);
-    const body = {...requestBody, response_mode: "streaming"};
+    const request = await this.getRequestBody(options);
+    const {warnings, session} = request;
+
+    const {body, responseHeaders, value: responseStream} =
+      await this.postChatMessages({
+        options,
+        body: {...request.body, response_mode: "streaming"},
+        session,
+        warnings,
+        successfulResponseHandler: createEventSourceResponseHandler(
+          difyStreamEventSchema as any
+        ),
+      });
 
-    const {responseHeaders, value: responseStream} = await postJsonToApi({
-      url: this.chatMessagesEndpoint,
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body,
-      failedResponseHandler: difyFailedResponseHandler,
-      successfulResponseHandler: createEventSourceResponseHandler(
-        difyStreamEventSchema as any
+    return {
+      stream: withJsonResponseFormat(
+        (
+          responseStream as ReadableStream<ParseResult<DifyStreamEvent>>
+        ).pipeThrough(
+          createChatStreamTransformer({
+            ...this.getStreamOptions(options, body, session),
+            warnings,
+          })
+        ),
+        options.responseFormat
       ),
-      abortSignal,
-      fetch: this.config.fetch,
-    });
-    type StreamState = {
-      isInThinking: boolean;
-      isActiveText: boolean;
-    }
-    const state: StreamState = {
-      isInThinking: false,
-      isActiveText: false,
+      request: {body: JSON.stringify(body)},
+      response: {headers: responseHeaders},
     };
+  }
 
-    // Helper functions for content parsing
-    const parseContentWithThinking = (
-      newContent: string,
-      state: StreamState,
-      controller: TransformStreamDefaultController<LanguageModelV2StreamPart>
-    ) => {
-      const thinkingStart = '<think>\n'
-      const thinkingEnd = '\n</think>'
-
-      if (!state.isInThinking) {
-        // Check if thinking starts in this chunk
-        const thinkStartIndex = newContent.indexOf(thinkingStart);
-        
-        if (thinkStartIndex === -1) {
-          // No thinking, treat as regular text
-          if (!state.isActiveText) {
-            state.isActiveText = true;
-            controller.enqueue({
-              type: "text-start",
-              id: "answer"
-            });
-          }
-          controller.enqueue({
-            type: "text-delta",
-            id: "answer",
-            delta: newContent
-          });
-          return;
-        }
-
-        // Handle text before thinking (if any)
-        if (thinkStartIndex > 0) {
-          const textBefore = newContent.substring(0, thinkStartIndex);
-          if (!state.isActiveText) {
-            state.isActiveText = true;
-            controller.enqueue({
-              type: "text-start",
-              id: "answer"
-            });
-          }
-          controller.enqueue({
-            type: "text-delta",
-            id: "answer",
-            delta: textBefore
-          });
-        }
-
-        // Start thinking
-        state.isInThinking = true;
-        controller.enqueue({
-          type: "reasoning-start",
-          id: 'reasoning'
-        });
-
-        // Process content after thinking start
-        const contentAfterStart = newContent.substring(thinkStartIndex + thinkingStart.length);
-        if (contentAfterStart) {
-          parseContentWithThinking(contentAfterStart, state, controller);
-        }
-      } else {
-        // Currently in thinking mode
-        const thinkEndIndex = newContent.indexOf(thinkingEnd);
-        
-        if (thinkEndIndex === -1) {
-          // No thinking end, all content is reasoning
-          controller.enqueue({
-            type: "reasoning-delta",
-            id: 'reasoning',
-            delta: newContent
-          });
-          return;
-        }
-
-        // Handle reasoning content before end
-        if (thinkEndIndex > 0) {
-          const reasoningPart = newContent.substring(0, thinkEndIndex);
-          controller.enqueue({
-            type: "reasoning-delta",
-            id: 'reasoning',
-            delta: reasoningPart
-          });
-        }
-
-        // End thinking
-        controller.enqueue({
-          type: "reasoning-end",
-          id: 'reasoning'
-        });
-        state.isInThinking = false;
-
-        // Handle text after thinking end (if any)
-        const textAfter = newContent.substring(thinkEndIndex + thinkingEnd.length);
-        if (textAfter) {
-          if (!state.isActiveText) {
-            state.isActiveText = true;
-            controller.enqueue({
-              type: "text-start",
-              id: "answer"
-            });
-          }
-          controller.enqueue({
-            type: "text-delta",
-            id: "answer",
-            delta: textAfter
-          });
-        }
+  /**
+   * Posts the message to /chat-messages. A conversation id from the conversation store
+   * is outdated when Dify has deleted the conversation, then the message starts a new
+   * conversation, with the earlier messages sent according to `historyMode`.
+   */
+  private async postChatMessages<
+    BODY extends {
+      conversation_id?: string;
+      query: string;
+      inputs: Record<string, unknown>;
+    },
+    RESPONSE,
+  >({
+    options,
+    body,
+    session,
+    warnings,
+    successfulResponseHandler,
+  }: {
+    options: LanguageModelV2CallOptions;
+    body: BODY;
+    session?: DifySession;
+    warnings: LanguageModelV2CallWarning[];
+    successfulResponseHandler: ResponseHandler<RESPONSE>;
+  }) {
+    const post = async (body: BODY) => ({
+      body,
+      ...(await postJsonToApi({
+        url: this.endpoints.chatMessages,
+        headers: combineHeaders(this.config.headers(options.headers), options.headers),
+        body,
+        failedResponseHandler: difyFailedResponseHandler,
+        successfulResponseHandler,
+        abortSignal: options.abortSignal,
+        fetch: this.config.fetch,
+      })),
+    });
+
+    try {
+      return await post(body);
+    } catch (error) {
+      if (
+        !session?.isStoredConversation ||
+        !DifyConversationNotExistsError.isInstance(error)
+      ) {
+        throw error;
       }
-    };
 
+      await this.config.conversationStore?.delete(session.key);
+      warnings.push({
+        type: "other",
+        message: `The conversation ${body.conversation_id} of session "${session.key}" ` +
+          "no longer exists in Dify. A new conversation was started.",
+      });
+      const history = this.getHistory(options.prompt, body.query, warnings);
+      return post({
+        ...body,
+        inputs: {...history.inputs, ...body.inputs},
+        query: history.query,
+        conversation_id: undefined,
+      });
+    }
+  }
+
+  /**
+   * Options of the stream transformer: stopping the Dify task when the call is
+   * aborted, loading suggested questions, emitting TTS audio, extracting reasoning
+   * and saving the conversation of the session
+   */
+  private getStreamOptions(
+    options: LanguageModelV2CallOptions,
+    body: {user: string},
+    session?: DifySession
+  ): ChatStreamOptions {
+    const {user} = body;
+    const store = this.config.conversationStore;
     return {
-      stream: responseStream.pipeThrough(
-        new TransformStream<
-          ParseResult<DifyStreamEvent>,
-          LanguageModelV2StreamPart
-        >({
-          transform(chunk, controller) {
-            if (!chunk.success) {
-              controller.enqueue({type: "error", error: chunk.error});
-              return;
-            }
-            const data = chunk.value;
-            switch (data.event) {
-              case 'workflow_started': {
-                controller.enqueue({
-                  type: 'stream-start',
-                  warnings: []
-                })
-                controller.enqueue({
-                  type: 'raw',
-                  rawValue: data
-                });
-                break;
-              }
-              case "workflow_finished": {
-                if (state.isActiveText) {
-                  controller.enqueue({
-                    type: "text-end",
-                    id: "answer",
-                  });
-                  state.isActiveText = false;
-                }
-                controller.enqueue({
-                  type: 'raw',
-                  rawValue: data
-                });
-                break;
-              }
-
-              case "message":
-              case "agent_message": {
-                if ("answer" in data && typeof data.answer === "string") {
-                  parseContentWithThinking(data.answer, state, controller);
-                }
-                break;
-              }
-
-              case "message_end": {
-                controller.enqueue({
-                  type: 'raw',
-                  rawValue: data
-                })
-                const messageEndData = data as MessageEndEvent
-                controller.enqueue({
-                  type: "finish",
-                  finishReason: "stop",
-                  usage: {
-                    inputTokens: messageEndData.metadata?.usage?.prompt_tokens,
-                    outputTokens: messageEndData.metadata?.usage?.completion_tokens,
-                    totalTokens: messageEndData.metadata?.usage?.total_tokens,
-                  },
-                  providerMetadata: {
-                    quoteInfo: messageEndData.quoteInfo,
-                  },
-                });
-                break;
-              }
-
-              default: {
-                controller.enqueue({
-                  type: 'raw',
-                  rawValue: data
-                });
-                break;
-              }
-            }
-          },
-        })
-      ),
-      request: {body: JSON.stringify(body)},
-      response: {headers: responseHeaders},
+      ...stopTaskOnAbort({
+        abortSignal: options.abortSignal,
+        stop: (taskId) =>
+          stopDifyTask({
+            url: this.endpoints.chatMessageStop(taskId),
+            headers: combineHeaders(this.config.headers(options.headers), options.headers),
+            fetch: this.config.fetch,
+            user,
+          }),
+      }),
+      getSuggestedQuestions: this.settings.suggestedQuestions
+        ? (messageId) => this.getSuggestedQuestions(messageId, user, options)
+        : undefined,
+      onConversationId: session && store
+        ? (conversationId) => store.set(session.key, conversationId)
+        : undefined,
+      ttsAudio: this.settings.ttsAudio,
+      toolNames: options.tools?.map((tool) => tool.name),
+      reasoning: this.settings.reasoning,
+      url: this.endpoints.chatMessages,
+      requestBodyValues: body,
     };
   }
 
+  private getSuggestedQuestions(
+    messageId: string,
+    user: string,
+    options: LanguageModelV2CallOptions
+  ) {
+    return getDifySuggestedQuestions({
+      url: this.endpoints.messageSuggested(messageId),
+      headers: combineHeaders(this.config.headers(options.headers), options.headers),
+      fetch: this.config.fetch,
+      user,
+      abortSignal: options.abortSignal,
+    });
+  }
 
   /**
-   * Get the request body for the Dify API
+   * Get the request body for the Dify API and the warnings of the call
    */
-  private getRequestBody(options: LanguageModelV2CallOptions) {
+  private async getRequestBody(options: LanguageModelV2CallOptions) {
     // In AI SDK v5 LanguageModelV2, messages are in options.prompt
     const messages = options.prompt;
 
     if (!messages || !messages.length) {
       throw new APICallError({
         message: "No messages provided",
-        url: this.chatMessagesEndpoint,
+        url: this.endpoints.chatMessages,
         requestBodyValues: options,
       });
     }
@@ -360,15 +357,17 @@ export class DifyChatLanguageModel implements LanguageModelV2 {
     if (latestMessage.role !== "user") {
       throw new APICallError({
         message: "The last message must be a user message",
-        url: this.chatMessagesEndpoint,
+        url: this.endpoints.chatMessages,
         requestBodyValues: {latestMessageRole: latestMessage.role},
       });
     }
-    const attachmentList = Array.isArray(latestMessage.content) ?
-      latestMessage.content
-        .filter(part => part.type === 'file')
-        .map((part) => part.providerOptions?.fileInfo)
+    const fileParts = Array.isArray(latestMessage.content) ?
+      latestMessage.content.filter(part => part.type === 'file')
       : []
+    // file parts that carry a prepared `fileInfo` are forwarded unchanged (legacy)
+    const attachmentList = fileParts
+      .filter((part) => part.providerOptions?.fileInfo)
+      .map((part) => part.providerOptions?.fileInfo)
 
     const query = Array.isArray(latestMessage.content) ?
       latestMessage.content
@@ -377,29 +376,129 @@ export class DifyChatLanguageModel implements LanguageModelV2 {
         .join(' ')
       : ''
 
-    const conversationId = options.headers?.["chat-id"];
-    const userId = options.headers?.["user-id"] ?? "you_should_pass_user-id";
-    const parent_message_id = options.headers?.["parent-message-id"];
-    const {
-      "chat-id": _,
-      "user-id": __,
-      ...cleanHeaders
-    } = options.headers || {};
-    options.headers = cleanHeaders;
+    const {providerOptions, headers, warnings} =
+      resolveDifyProviderOptions(options);
+    const userId = providerOptions.user ?? "you_should_pass_user-id";
+    options.headers = headers;
+
+    const {conversationId, session} = await this.getConversation(
+      providerOptions,
+      warnings
+    );
+
+    // Dify knows the history of an existing conversation, otherwise it only sees this request
+    const {inputs: historyInputs, query: historyQuery} = conversationId == null
+      ? this.getHistory(messages, query, warnings)
+      : {inputs: {}, query};
+
+    const inputs = {
+      ...historyInputs,
+      ...getCallOptionInputs(
+        options,
+        this.settings.callOptionInputs,
+        warnings,
+        {agentTools: true}
+      ),
+      ...getJsonSchemaInputs(
+        options.responseFormat,
+        this.settings.jsonSchemaVariable ?? "json_schema",
+        warnings
+      ),
+      ...providerOptions.inputs,
+      ...(this.settings.inputs || {}),
+    };
 
-    const config = options.providerOptions?.dify
+    // validate before files are uploaded, so that an invalid request leaves nothing behind
+    if (this.settings.validateInputs) {
+      await validateDifyInputs(this.config, inputs, options.abortSignal);
+    }
 
-    return {
-      inputs: {
-        ...config,
-        ...(this.settings.inputs || {}),
-      },
-      query,
-      parent_message_id,
+    const files = await convertToDifyFiles(
+      fileParts.filter((part) => !part.providerOptions?.fileInfo),
+      (file) =>
+        uploadDifyFile({
+          ...file,
+          url: this.endpoints.filesUpload,
+          headers: combineHeaders(this.config.headers(options.headers), options.headers),
+          fetch: this.config.fetch,
+          user: userId,
+          abortSignal: options.abortSignal,
+        })
+    );
+
+    const body = {
+      inputs,
+      query: historyQuery,
+      parent_message_id: providerOptions.parentMessageId,
       response_mode: this.settings.responseMode,
       conversation_id: conversationId,
       user: userId,
-      knowledgeFileList: attachmentList,
+      ...(providerOptions.autoGenerateName != null
+        ? {auto_generate_name: providerOptions.autoGenerateName}
+        : {}),
+      ...(files.length > 0 || providerOptions.files
+        ? {files: [...files, ...(providerOptions.files ?? [])]}
+        : {}),
+      ...(attachmentList.length > 0 ? {knowledgeFileList: attachmentList} : {}),
+    };
+
+    return {body, warnings, session};
+  }
+
+  /**
+   * The messages before the last user message, sent according to `historyMode` when
+   * the request starts a new conversation
+   */
+  private getHistory(
+    messages: LanguageModelV2CallOptions["prompt"],
+    query: string,
+    warnings: LanguageModelV2CallWarning[]
+  ): {inputs: Record<string, string>; query: string} {
+    const history = messages.slice(0, -1);
+    if (history.length === 0) {
+      return {inputs: {}, query};
+    }
+
+    const historyMode = this.settings.historyMode ?? "conversation";
+    if (historyMode === "conversation") {
+      warnings.push({
+        type: "other",
+        message: `${history.length} earlier prompt message(s) were not sent to Dify. ` +
+          "Pass providerOptions.dify.conversationId or set historyMode to forward them.",
+      });
+      return {inputs: {}, query};
+    }
+
+    return applyDifyHistory({historyMode, history, query});
+  }
+
+  /**
+   * The conversation to continue: the `conversationId` of the call, otherwise the
+   * conversation of the session in the conversation store
+   */
+  private async getConversation(
+    {conversationId, sessionKey}: DifyProviderOptions,
+    warnings: LanguageModelV2CallWarning[]
+  ): Promise<{conversationId?: string; session?: DifySession}> {
+    const store = this.config.conversationStore;
+    if (sessionKey == null) {
+      return {conversationId};
+    }
+    if (store == null) {
+      warnings.push({
+        type: "other",
+        message: "providerOptions.dify.sessionKey is ignored without a conversationStore on the provider.",
+      });
+      return {conversationId};
+    }
+
+    if (conversationId != null) {
+      return {conversationId, session: {key: sessionKey, isStoredConversation: false}};
+    }
+    const storedConversationId = (await store.get(sessionKey)) ?? undefined;
+    return {
+      conversationId: storedConversationId,
+      session: {key: sessionKey, isStoredConversation: storedConversationId != null},
     };
   }
 }
@@ -1,5 +1,19 @@
 import { z } from "zod";
 
+// knowledge base citation of an answer
+export const retrieverResourceSchema = z
+  .object({
+    position: z.number().optional(),
+    dataset_id: z.string().optional(),
+    dataset_name: z.string().optional(),
+    document_id: z.string().optional(),
+    document_name: z.string().optional(),
+    segment_id: z.string().optional(),
+    score: z.number().nullable().optional(),
+    content: z.string().optional(),
+  })
+  .passthrough();
+
 export const completionResponseSchema = z.object({
   id: z.string(),
   answer: z.string(),
@@ -12,9 +26,153 @@ export const completionResponseSchema = z.object({
       prompt_tokens: z.number(),
       total_tokens: z.number(),
     }),
+    retriever_resources: z.array(retrieverResourceSchema).optional(),
   }),
 });
 
+export const completionMessageResponseSchema = z.object({
+  id: z.string(),
+  message_id: z.string().optional(),
+  task_id: z.string(),
+  mode: z.string().optional(),
+  answer: z.string(),
+  metadata: z
+    .object({
+      usage: z
+        .object({
+          prompt_tokens: z.number(),
+          completion_tokens: z.number(),
+          total_tokens: z.number(),
+        })
+        .passthrough(),
+      retriever_resources: z.array(retrieverResourceSchema).optional(),
+    })
+    .passthrough(),
+  created_at: z.number().optional(),
+});
+
+export const workflowRunResponseSchema = z.object({
+  workflow_run_id: z.string(),
+  task_id: z.string(),
+  data: z
+    .object({
+      id: z.string(),
+      workflow_id: z.string(),
+      status: z.string(),
+      outputs: z.record(z.any()).nullable(),
+      error: z.string().nullable().optional(),
+      elapsed_time: z.number().optional(),
+      total_tokens: z.number().optional(),
+      total_steps: z.number().optional(),
+      created_at: z.number().optional(),
+      finished_at: z.number().optional(),
+      exceptions_count: z.number().optional(),
+    })
+    .passthrough(),
+});
+
+export const fileUploadResponseSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional(),
+    size: z.number().optional(),
+    extension: z.string().nullable().optional(),
+    mime_type: z.string().nullable().optional(),
+    created_by: z.string().optional(),
+    created_at: z.number().optional(),
+  })
+  .passthrough();
+
+export const stopResponseSchema = z.object({
+  result: z.string(),
+});
+
+export const conversationSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    inputs: z.record(z.string(), z.any()).optional(),
+    status: z.string().optional(),
+    introduction: z.string().nullable().optional(),
+    created_at: z.number(),
+    updated_at: z.number().optional(),
+  })
+  .passthrough();
+
+export const conversationListResponseSchema = z.object({
+  data: z.array(conversationSchema),
+  has_more: z.boolean(),
+  limit: z.number(),
+});
+
+export const conversationMessageSchema = z
+  .object({
+    id: z.string(),
+    conversation_id: z.string(),
+    parent_message_id: z.string().nullable().optional(),
+    inputs: z.record(z.string(), z.any()).optional(),
+    query: z.string(),
+    answer: z.string(),
+    message_files: z.array(z.record(z.string(), z.any())).optional(),
+    feedback: z
+      .object({ rating: z.string().nullable().optional() })
+      .nullable()
+      .optional(),
+    retriever_resources: z.array(z.record(z.string(), z.any())).optional(),
+    agent_thoughts: z.array(z.record(z.string(), z.any())).optional(),
+    status: z.string().optional(),
+    error: z.string().nullable().optional(),
+    created_at: z.number(),
+  })
+  .passthrough();
+
+export const messageListResponseSchema = z.object({
+  data: z.array(conversationMessageSchema),
+  has_more: z.boolean(),
+  limit: z.number(),
+});
+
+export const feedbackResponseSchema = z.object({
+  result: z.string(),
+});
+
+export const suggestedQuestionsResponseSchema = z.object({
+  result: z.string(),
+  data: z.array(z.string()),
+});
+
+export const audioToTextResponseSchema = z.object({
+  text: z.string(),
+});
+
+// a field of `user_input_form`, keyed by its control type (e.g. `text-input`, `select`)
+export const appInputFieldSchema = z
+  .object({
+    label: z.string().optional(),
+    variable: z.string(),
+    required: z.boolean().optional(),
+    max_length: z.number().nullable().optional(),
+    options: z.array(z.string()).optional(),
+    default: z.any().optional(),
+  })
+  .passthrough();
+
+export const appParametersResponseSchema = z
+  .object({
+    opening_statement: z.string().nullable().optional(),
+    user_input_form: z.array(z.record(appInputFieldSchema)).default([]),
+  })
+  .passthrough();
+
+export const appInfoResponseSchema = z
+  .object({
+    name: z.string().optional(),
+    description: z.string().nullable().optional(),
+    tags: z.array(z.string()).optional(),
+    mode: z.string().optional(),
+  })
+  .passthrough();
+
 export const errorResponseSchema = z.object({
   code: z.string(),
   message: z.string(),
@@ -157,13 +315,29 @@ export const messageEndSchema = difyStreamEventBase.extend({
         })
         .passthrough(),
       annotation_reply: z.any().nullable(),
-      retriever_resources: z.array(z.any()),
+      retriever_resources: z.array(retrieverResourceSchema),
     })
     .passthrough(),
   files: z.array(z.any()),
   quoteInfo: z.record(z.any()),
 });
 
+// sent by output moderation, replaces the answer streamed so far
+export const messageReplaceSchema = difyStreamEventBase.extend({
+  event: z.literal("message_replace"),
+  answer: z.string(),
+  reason: z.string().optional(),
+});
+
+export const textChunkSchema = difyStreamEventBase.extend({
+  event: z.literal("text_chunk"),
+  workflow_run_id: z.string(),
+  data: z.object({
+    text: z.string(),
+    from_variable_selector: z.array(z.string()).nullable().optional(),
+  }),
+});
+
 export const ttsMessageSchema = difyStreamEventBase.extend({
   event: z.literal("tts_message"),
   audio: z.string(),
@@ -178,6 +352,13 @@ export const pingSchema = difyStreamEventBase.extend({
   event: z.literal("ping"),
 });
 
+export const errorEventSchema = difyStreamEventBase.extend({
+  event: z.literal("error"),
+  status: z.number().optional(),
+  code: z.string().optional(),
+  message: z.string(),
+});
+
 // {
 // success: true,
 //   value: {
@@ -254,12 +435,14 @@ export const agentMessageSchema = difyStreamEventBase.extend({
 
 export const agentThoughtSchema = difyStreamEventBase.extend({
   event: z.literal("agent_thought"),
-  thought: z.string(),
-  observation: z.string(),
-  tool: z.string(),
-  tool_labels: z.record(z.string(), z.string()),
-  tool_input: z.string(),
-  message_files: z.array(z.unknown()),
+  id: z.string(),
+  position: z.number(),
+  thought: z.string().nullable().optional(),
+  observation: z.string().nullable().optional(),
+  tool: z.string().nullable().optional(),
+  tool_labels: z.record(z.string(), z.any()).nullable().optional(),
+  tool_input: z.string().nullable().optional(),
+  message_files: z.array(z.unknown()).nullable().optional(),
 });
 
 // Combine all schemas with discriminatedUnion
@@ -271,16 +454,40 @@ export const difyStreamEventSchema = z
     nodeFinishedSchema,
     messageSchema,
     messageEndSchema,
+    messageReplaceSchema,
+    textChunkSchema,
     ttsMessageSchema,
     ttsMessageEndSchema,
     agentThoughtSchema,
     agentMessageSchema,
     pingSchema,
+    errorEventSchema,
   ])
   .or(difyStreamEventBase); // Fallback for any other event types
 
 // Export TypeScript types for each event schema
+export type RetrieverResource = z.infer<typeof retrieverResourceSchema>;
 export type CompletionResponse = z.infer<typeof completionResponseSchema>;
+export type CompletionMessageResponse = z.infer<
+  typeof completionMessageResponseSchema
+>;
+export type WorkflowRunResponse = z.infer<typeof workflowRunResponseSchema>;
+export type FileUploadResponse = z.infer<typeof fileUploadResponseSchema>;
+export type StopResponse = z.infer<typeof stopResponseSchema>;
+export type Conversation = z.infer<typeof conversationSchema>;
+export type ConversationListResponse = z.infer<
+  typeof conversationListResponseSchema
+>;
+export type ConversationMessage = z.infer<typeof conversationMessageSchema>;
+export type MessageListResponse = z.infer<typeof messageListResponseSchema>;
+export type FeedbackResponse = z.infer<typeof feedbackResponseSchema>;
+export type SuggestedQuestionsResponse = z.infer<
+  typeof suggestedQuestionsResponseSchema
+>;
+export type AudioToTextResponse = z.infer<typeof audioToTextResponseSchema>;
+export type AppInputField = z.infer<typeof appInputFieldSchema>;
+export type AppParametersResponse = z.infer<typeof appParametersResponseSchema>;
+export type AppInfoResponse = z.infer<typeof appInfoResponseSchema>;
 export type ErrorResponse = z.infer<typeof errorResponseSchema>;
 export type DifyStreamEventBase = z.infer<typeof difyStreamEventBase>;
 
@@ -295,6 +502,8 @@ export type NodeFinishedEvent = z.infer<typeof nodeFinishedSchema>;
 // Message event types
 export type MessageEvent = z.infer<typeof messageSchema>;
 export type MessageEndEvent = z.infer<typeof messageEndSchema>;
+export type MessageReplaceEvent = z.infer<typeof messageReplaceSchema>;
+export type TextChunkEvent = z.infer<typeof textChunkSchema>;
 
 // TTS event types
 export type TtsMessageEvent = z.infer<typeof ttsMessageSchema>;
@@ -306,6 +515,7 @@ export type AgentThoughtEvent = z.infer<typeof agentThoughtSchema>;
 
 // System event types
 export type PingEvent = z.infer<typeof pingSchema>;
+export type ErrorEvent = z.infer<typeof errorEventSchema>;
 
 // Union type for all events
 export type DifyStreamEvent = z.infer<typeof difyStreamEventSchema>;
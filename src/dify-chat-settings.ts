@@ -1,3 +1,7 @@
+import type { DifyCallOptionInputs } from "./dify-call-options";
+import type { DifyHistoryMode } from "./dify-history";
+import type { DifyReasoningFormat } from "./dify-reasoning";
+
 // Define model IDs for Dify
 export type DifyChatModelId = string;
 
@@ -17,7 +21,62 @@ export interface DifyChatSettings {
   responseMode?: "streaming" | "blocking";
 
   /**
-   * API key.
+   * How earlier messages of the prompt reach Dify when no conversation id is passed.
+   * Defaults to `"conversation"`, which sends only the last user message and warns
+   * about the dropped messages. `{ type: "input", variable }` sends them serialized in
+   * an input variable of the app, `{ type: "query", prefix }` puts them in front of
+   * the query.
+   */
+  historyMode?: DifyHistoryMode;
+
+  /**
+   * Markup of reasoning in the answer, extracted into reasoning parts in both
+   * streaming and blocking mode: `"think"` (default) for `<think>` tags, `"details"`
+   * for Dify's `<details>` thinking blocks, a custom `{ open, close }` pair, or
+   * `false` to keep the answer as it is.
+   */
+  reasoning?: DifyReasoningFormat;
+
+  /**
+   * Fetch the suggested follow-up questions after each answer and add them to the
+   * provider metadata as `dify.suggestedQuestions`. Requires "suggested questions
+   * after answer" to be enabled in the Dify app. Defaults to false.
+   */
+  suggestedQuestions?: boolean;
+
+  /**
+   * Emit the audio of Dify's automatic text-to-speech (`tts_message` events) as
+   * `file` parts with media type `audio/mpeg`. Requires text-to-speech autoplay to be
+   * enabled in the Dify app. Defaults to false.
+   */
+  ttsAudio?: boolean;
+
+  /**
+   * Input variables that receive call options, e.g. `{ temperature: "temperature" }`.
+   * The model is configured in the Dify app, so call options that are not mapped are
+   * ignored with an `unsupported-setting` warning.
+   */
+  callOptionInputs?: DifyCallOptionInputs;
+
+  /**
+   * Input variable that receives the JSON schema of a `json` response format (e.g. from
+   * `generateObject`), so that the app can use it in its prompt. Defaults to
+   * "json_schema". Set to `false` to not send the schema. The JSON is extracted from
+   * the answer either way.
+   */
+  jsonSchemaVariable?: string | false;
+
+  /**
+   * Check the inputs against the `user_input_form` of the app before sending a request,
+   * and throw an `InvalidArgumentError` listing missing required variables, invalid
+   * `select` values and text over its max length. The app parameters are loaded once
+   * per provider. Defaults to false.
+   */
+  validateInputs?: boolean;
+
+  /**
+   * API key of the Dify application.
+   * Defaults to the provider's `apiKey`, then to the `DIFY_API_KEY` environment variable.
    */
   apiKey?: string;
 }
@@ -0,0 +1,431 @@
+import {
+  getErrorMessage,
+  type JSONValue,
+  type LanguageModelV2CallWarning,
+  type LanguageModelV2StreamPart,
+  type LanguageModelV2Usage,
+  type SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import type {ParseResult} from "@ai-sdk/provider-utils";
+import type {
+  AgentThoughtEvent,
+  DifyStreamEvent,
+  ErrorEvent,
+  MessageEndEvent,
+  MessageReplaceEvent,
+  NodeFinishedEvent,
+  NodeStartedEvent,
+  TtsMessageEndEvent,
+  TtsMessageEvent,
+  WorkflowFinishedEvent,
+  WorkflowStartedEvent,
+} from "./dify-chat-schema";
+import {DifyWorkflowExecutionCollector} from "./dify-workflow-execution";
+import {DifyAgentThoughtMapper} from "./dify-agent-thought";
+import {convertRetrieverResources} from "./dify-sources";
+import {createDifyStreamError} from "./dify-error";
+import {isLengthTruncatedNode, mapDifyFinishReason} from "./dify-finish-reason";
+import {
+  DifyReasoningExtractor,
+  type DifyReasoningFormat,
+  type ReasoningExtractorPart,
+} from "./dify-reasoning";
+
+export interface ChatStreamOptions {
+  // called when the stream reports its task id
+  onTaskId?: (taskId: string) => void;
+  // called when the stream has ended
+  onFinish?: () => void;
+  // called with the conversation id when the answer is complete, e.g. to store it.
+  // A failure is reported as `conversationStoreError` in the provider metadata
+  onConversationId?: (conversationId: string) => Promise<void> | void;
+  // loads the suggested questions of the answered message before the finish part
+  getSuggestedQuestions?: (messageId: string) => Promise<string[]>;
+  // emit the audio of `tts_message` events as file parts
+  ttsAudio?: boolean;
+  // Dify agent tools declared in the `tools` of the call, emitted as tool parts
+  toolNames?: string[];
+  // markup of reasoning in the answer, defaults to `<think>` tags
+  reasoning?: DifyReasoningFormat;
+  // warnings of the call, emitted with the stream start
+  warnings?: LanguageModelV2CallWarning[];
+  // the request, for the errors of `error` events
+  url?: string;
+  requestBodyValues?: unknown;
+}
+
+/**
+ * Maps Dify SSE events to AI SDK stream parts. The finish part is emitted when the
+ * stream ends, so that it can carry data from both `message_end` and `workflow_finished`.
+ */
+export function createChatStreamTransformer(
+  streamOptions: ChatStreamOptions = {}
+): TransformStream<
+  ParseResult<DifyStreamEvent>,
+  LanguageModelV2StreamPart
+> {
+  type StreamState = {
+    isActiveText: boolean;
+    hasResponseMetadata: boolean;
+    isFinished: boolean;
+    hasError: boolean;
+    isLengthTruncated: boolean;
+    isModerated: boolean;
+    // id of the current text block, a new one for every replacement
+    textId: string;
+    replacementCount: number;
+    moderationReason?: string;
+    conversationStoreError?: string;
+    answerSinceThought: string;
+    conversationId?: string;
+    messageId?: string;
+    taskId?: string;
+    // status of the chatflow run, from `workflow_finished`
+    status?: string;
+    exceptionsCount?: number;
+    usage: LanguageModelV2Usage;
+    quoteInfo?: Record<string, any>;
+  }
+  const state: StreamState = {
+    isActiveText: false,
+    hasResponseMetadata: false,
+    isFinished: false,
+    hasError: false,
+    isLengthTruncated: false,
+    isModerated: false,
+    textId: "answer",
+    replacementCount: 0,
+    answerSinceThought: "",
+    usage: {
+      inputTokens: undefined,
+      outputTokens: undefined,
+      totalTokens: undefined,
+    },
+  };
+  const workflowExecution = new DifyWorkflowExecutionCollector();
+  const agentThoughts = new DifyAgentThoughtMapper(streamOptions.toolNames);
+  const reasoning = new DifyReasoningExtractor(streamOptions.reasoning);
+
+  const enqueueAnswerParts = (
+    parts: ReasoningExtractorPart[],
+    controller: TransformStreamDefaultController<LanguageModelV2StreamPart>
+  ) => {
+    for (const part of parts) {
+      switch (part.type) {
+        case "text": {
+          if (!state.isActiveText) {
+            state.isActiveText = true;
+            controller.enqueue({
+              type: "text-start",
+              id: state.textId
+            });
+          }
+          controller.enqueue({
+            type: "text-delta",
+            id: state.textId,
+            delta: part.text
+          });
+          break;
+        }
+        case "reasoning-start": {
+          controller.enqueue({
+            type: "reasoning-start",
+            id: part.id
+          });
+          break;
+        }
+        case "reasoning-delta": {
+          controller.enqueue({
+            type: "reasoning-delta",
+            id: part.id,
+            delta: part.text
+          });
+          break;
+        }
+        case "reasoning-end": {
+          controller.enqueue({
+            type: "reasoning-end",
+            id: part.id
+          });
+          break;
+        }
+      }
+    }
+  };
+
+  const closeOpenParts = (
+    controller: TransformStreamDefaultController<LanguageModelV2StreamPart>
+  ) => {
+    agentThoughts.close().forEach((part) => controller.enqueue(part));
+    // emits text held back for a possible partial tag
+    enqueueAnswerParts(reasoning.flush(), controller);
+    if (state.isActiveText) {
+      controller.enqueue({
+        type: "text-end",
+        id: state.textId,
+      });
+      state.isActiveText = false;
+    }
+  };
+
+  return new TransformStream<
+    ParseResult<DifyStreamEvent>,
+    LanguageModelV2StreamPart
+  >({
+    start(controller) {
+      controller.enqueue({
+        type: 'stream-start',
+        warnings: streamOptions.warnings ?? []
+      });
+    },
+
+    transform(chunk, controller) {
+      if (!chunk.success) {
+        controller.enqueue({type: "error", error: chunk.error});
+        return;
+      }
+      const data = chunk.value;
+      state.conversationId = data.conversation_id ?? state.conversationId;
+      state.messageId = data.message_id ?? state.messageId;
+      if (data.task_id != null && data.task_id !== state.taskId) {
+        state.taskId = data.task_id;
+        streamOptions.onTaskId?.(data.task_id);
+      }
+
+      switch (data.event) {
+        case 'workflow_started': {
+          workflowExecution.workflowStarted(data as WorkflowStartedEvent);
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+        case "workflow_finished": {
+          const workflowFinishedData = data as WorkflowFinishedEvent;
+          workflowExecution.workflowFinished(workflowFinishedData);
+          closeOpenParts(controller);
+          state.isFinished = true;
+          state.status = workflowFinishedData.data?.status;
+          state.exceptionsCount = workflowFinishedData.data?.exceptions_count;
+          if (state.usage.totalTokens == null) {
+            state.usage.totalTokens = workflowFinishedData.data?.total_tokens;
+          }
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+        case "node_started": {
+          workflowExecution.nodeStarted(data as NodeStartedEvent);
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+        case "node_finished": {
+          workflowExecution.nodeFinished(data as NodeFinishedEvent);
+          if (isLengthTruncatedNode(data as NodeFinishedEvent)) {
+            state.isLengthTruncated = true;
+          }
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+
+        case "message":
+        case "agent_message": {
+          if (!state.hasResponseMetadata) {
+            state.hasResponseMetadata = true;
+            const id = "id" in data && typeof data.id === "string"
+              ? data.id
+              : data.message_id;
+            controller.enqueue({
+              type: "response-metadata",
+              id,
+              timestamp: data.created_at != null
+                ? new Date(data.created_at * 1000)
+                : undefined,
+            });
+          }
+          if ("answer" in data && typeof data.answer === "string") {
+            state.answerSinceThought += data.answer;
+            enqueueAnswerParts(reasoning.process(data.answer), controller);
+          }
+          break;
+        }
+
+        case "message_replace": {
+          const replaceData = data as MessageReplaceEvent;
+          closeOpenParts(controller);
+          state.isModerated = true;
+          state.moderationReason = replaceData.reason ?? state.moderationReason;
+          state.replacementCount++;
+          state.textId = `replacement-${state.replacementCount}`;
+          state.answerSinceThought = replaceData.answer;
+          // the sanitized answer is not parsed for reasoning
+          state.isActiveText = true;
+          controller.enqueue({
+            type: "text-start",
+            id: state.textId,
+            providerMetadata: {dify: {replacement: true}},
+          });
+          if (replaceData.answer) {
+            controller.enqueue({
+              type: "text-delta",
+              id: state.textId,
+              delta: replaceData.answer
+            });
+          }
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+
+        case "agent_thought": {
+          const thoughtData = data as AgentThoughtEvent;
+          agentThoughts
+            .map(thoughtData, state.answerSinceThought)
+            .forEach((part) => controller.enqueue(part));
+          if (thoughtData.thought) {
+            state.answerSinceThought = "";
+          }
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+
+        case "message_end": {
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          })
+          const messageEndData = data as MessageEndEvent
+          closeOpenParts(controller);
+          convertRetrieverResources(
+            messageEndData.metadata?.retriever_resources
+          ).forEach((part) => controller.enqueue(part));
+          state.isFinished = true;
+          state.quoteInfo = messageEndData.quoteInfo;
+          const usage = messageEndData.metadata?.usage;
+          if (usage) {
+            state.usage = {
+              inputTokens: usage.prompt_tokens,
+              outputTokens: usage.completion_tokens,
+              totalTokens: usage.total_tokens,
+            };
+          }
+          break;
+        }
+
+        case "tts_message":
+        case "tts_message_end": {
+          const audio = (data as TtsMessageEvent | TtsMessageEndEvent).audio;
+          if (streamOptions.ttsAudio && audio) {
+            // every chunk is a playable piece of the mp3 stream
+            controller.enqueue({
+              type: "file",
+              mediaType: "audio/mpeg",
+              data: audio,
+            });
+          }
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+
+        case "error": {
+          closeOpenParts(controller);
+          state.hasError = true;
+          controller.enqueue({
+            type: "error",
+            error: createDifyStreamError(data as ErrorEvent, streamOptions),
+          });
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+
+        default: {
+          controller.enqueue({
+            type: 'raw',
+            rawValue: data
+          });
+          break;
+        }
+      }
+    },
+
+    async flush(controller) {
+      streamOptions.onFinish?.();
+      closeOpenParts(controller);
+
+      if (state.isFinished && !state.hasError && state.conversationId != null) {
+        // the answer is complete, so a failed write does not fail the call
+        try {
+          await streamOptions.onConversationId?.(state.conversationId);
+        } catch (error) {
+          state.conversationStoreError = getErrorMessage(error);
+        }
+      }
+
+      // suggestions are an extra, the answer is kept when they can't be loaded
+      const suggestedQuestions =
+        state.isFinished && state.messageId != null
+          ? await streamOptions
+              .getSuggestedQuestions?.(state.messageId)
+              .catch(() => undefined)
+          : undefined;
+
+      const execution = workflowExecution.getExecution();
+      const providerMetadata: SharedV2ProviderMetadata = {
+        difyWorkflowData: {
+          conversationId: state.conversationId as JSONValue,
+          messageId: state.messageId as JSONValue,
+        },
+        dify: {
+          conversationId: state.conversationId as JSONValue,
+          messageId: state.messageId as JSONValue,
+          taskId: state.taskId as JSONValue,
+          ...(state.status != null ? {status: state.status} : {}),
+          ...(state.isModerated ? {moderated: true} : {}),
+          ...(state.moderationReason != null
+            ? {moderationReason: state.moderationReason}
+            : {}),
+          ...(state.exceptionsCount != null
+            ? {exceptionsCount: state.exceptionsCount}
+            : {}),
+          ...(execution
+            ? {workflowExecution: execution as unknown as JSONValue}
+            : {}),
+          ...(suggestedQuestions ? {suggestedQuestions} : {}),
+          ...(state.conversationStoreError != null
+            ? {conversationStoreError: state.conversationStoreError}
+            : {}),
+        },
+      };
+      if (state.quoteInfo) {
+        providerMetadata.quoteInfo = state.quoteInfo;
+      }
+
+      controller.enqueue({
+        type: "finish",
+        finishReason: mapDifyFinishReason(state),
+        usage: state.usage,
+        providerMetadata,
+      });
+    },
+  });
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import { DifyCompletionLanguageModel } from "./dify-completion-language-model";
+
+function createMockFetch(mockResponse: any) {
+  const calls: { url: string; body: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, body: JSON.parse(options.body) });
+    return mockResponse;
+  };
+  return Object.assign(fetch, { calls });
+}
+
+async function readAll(stream: ReadableStream<any>) {
+  const parts: any[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return parts;
+}
+
+function makeModel(settings: any, fetch: any) {
+  return new DifyCompletionLanguageModel("completion-app", settings, {
+    provider: "dify.completion",
+    baseURL: "https://mock.api/v1",
+    headers: () => ({ Authorization: "Bearer test" }),
+    fetch,
+  });
+}
+
+const prompt = [
+  { role: "user", content: [{ type: "text", text: "Write a haiku" }] },
+] as any;
+
+describe("DifyCompletionLanguageModel", () => {
+  it("should send the query inside inputs and parse the blocking response", async () => {
+    const fetch = createMockFetch({
+      ok: true,
+      headers: new Map([["Content-Type", "application/json"]]),
+      text: async () =>
+        JSON.stringify({
+          event: "message",
+          id: "msg1",
+          message_id: "msg1",
+          task_id: "task1",
+          mode: "completion",
+          answer: "Autumn moonlight",
+          metadata: {
+            usage: { prompt_tokens: 4, completion_tokens: 6, total_tokens: 10 },
+          },
+          created_at: 1705395332,
+        }),
+      status: 200,
+    });
+    const model = makeModel({ responseMode: "blocking", inputs: { tone: "calm" } }, fetch);
+
+    const result = await model.doGenerate({
+      prompt,
+      headers: { "user-id": "user-1" },
+    } as any);
+
+    expect(fetch.calls[0].url).toBe("https://mock.api/v1/completion-messages");
+    expect(fetch.calls[0].body).toEqual({
+      inputs: { query: "Write a haiku", tone: "calm" },
+      response_mode: "blocking",
+      user: "user-1",
+    });
+    expect(fetch.calls[0].body).not.toHaveProperty("conversation_id");
+    expect(fetch.calls[0].body).not.toHaveProperty("query");
+    expect(result.content).toEqual([{ type: "text", text: "Autumn moonlight" }]);
+    expect(result.usage).toEqual({ inputTokens: 4, outputTokens: 6, totalTokens: 10 });
+    expect(result.providerMetadata?.dify).toEqual({ messageId: "msg1", taskId: "task1" });
+  });
+
+  it("should stream message events", async () => {
+    const events = [
+      { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "Autumn " },
+      { event: "message", id: "msg1", message_id: "msg1", task_id: "task1", answer: "moonlight" },
+      {
+        event: "message_end",
+        id: "msg1",
+        message_id: "msg1",
+        task_id: "task1",
+        metadata: { usage: { prompt_tokens: 4, completion_tokens: 6, total_tokens: 10 } },
+      },
+    ];
+    const text = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+    const fetch = createMockFetch({
+      ok: true,
+      headers: new Headers({ "Content-Type": "text/event-stream" }),
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(text));
+          controller.close();
+        },
+      }),
+      status: 200,
+    });
+    const model = makeModel({ queryVariable: "topic" }, fetch);
+
+    const { stream } = await model.doStream({ prompt } as any);
+    const parts = await readAll(stream);
+
+    expect(fetch.calls[0].body.inputs).toEqual({ topic: "Write a haiku" });
+    expect(fetch.calls[0].body.response_mode).toBe("streaming");
+    expect(parts.filter((p) => p.type === "text-delta").map((p) => p.delta).join("")).toBe(
+      "Autumn moonlight"
+    );
+    const finishPart = parts.find((p) => p.type === "finish");
+    expect(finishPart.finishReason).toBe("stop");
+    expect(finishPart.usage.outputTokens).toBe(6);
+    expect(finishPart.providerMetadata.dify.messageId).toBe("msg1");
+  });
+
+  it("should send file parts as Dify files", async () => {
+    const calls: { url: string; options: any }[] = [];
+    const fetch = async (url: string, options: any) => {
+      calls.push({ url, options });
+      const body = url.endsWith("/files/upload")
+        ? { id: "upload-1", name: "pixel.png", mime_type: "image/png" }
+        : {
+            event: "message",
+            id: "msg1",
+            message_id: "msg1",
+            task_id: "task1",
+            answer: "A pixel",
+            metadata: { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+          };
+      return {
+        ok: true,
+        headers: new Map([["Content-Type", "application/json"]]),
+        text: async () => JSON.stringify(body),
+        status: 200,
+      };
+    };
+    const model = makeModel({ responseMode: "blocking" }, fetch);
+
+    await model.doGenerate({
+      prompt: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Describe these" },
+            { type: "file", mediaType: "image/jpeg", data: new URL("https://example.com/cat.jpg") },
+            { type: "file", mediaType: "image/png", data: new Uint8Array([1, 2, 3]), filename: "pixel.png" },
+          ],
+        },
+      ],
+    } as any);
+
+    expect(model.supportedUrls["image/*"]).toBeDefined();
+    expect(calls.map((call) => call.url)).toEqual([
+      "https://mock.api/v1/files/upload",
+      "https://mock.api/v1/completion-messages",
+    ]);
+    expect(JSON.parse(calls[1].options.body).files).toEqual([
+      { type: "image", transfer_method: "remote_url", url: "https://example.com/cat.jpg" },
+      { type: "image", transfer_method: "local_file", upload_file_id: "upload-1" },
+    ]);
+  });
+});
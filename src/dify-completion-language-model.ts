@@ -0,0 +1,293 @@
+import {
+  InvalidPromptError,
+  type LanguageModelV2,
+  type LanguageModelV2CallOptions,
+  type LanguageModelV2Content,
+} from "@ai-sdk/provider";
+import {
+  combineHeaders,
+  createEventSourceResponseHandler,
+  postJsonToApi,
+  type ParseResult,
+} from "@ai-sdk/provider-utils";
+import type {
+  DifyCompletionModelId,
+  DifyCompletionSettings,
+} from "./dify-completion-settings";
+import {
+  completionMessageResponseSchema,
+  difyStreamEventSchema,
+  type CompletionMessageResponse,
+  type DifyStreamEvent,
+} from "./dify-chat-schema";
+import { createChatStreamTransformer } from "./dify-chat-stream";
+import { createDifyEndpoints, type DifyEndpoints } from "./dify-endpoints";
+import { difyFailedResponseHandler } from "./dify-error";
+import { collectStreamParts, createDifyResponseHandler } from "./dify-response";
+import type { DifyModelConfig } from "./dify-model-config";
+import { validateDifyInputs } from "./dify-app";
+import { resolveDifyProviderOptions } from "./dify-provider-options";
+import { getCallOptionInputs } from "./dify-call-options";
+import {
+  extractJsonContent,
+  getJsonSchemaInputs,
+  withJsonResponseFormat,
+} from "./dify-json-response";
+import { stopDifyTask, stopTaskOnAbort } from "./dify-task";
+import { convertRetrieverResources } from "./dify-sources";
+import { extractReasoningContent } from "./dify-reasoning";
+import {
+  convertToDifyFiles,
+  difySupportedUrls,
+  uploadDifyFile,
+} from "./dify-files";
+
+/**
+ * Language model for Dify text generator apps (`/completion-messages`).
+ * Completions have no conversation, and the query is sent as an input variable.
+ */
+export class DifyCompletionLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2" as const;
+  readonly modelId: string;
+  readonly supportedUrls: Record<string, RegExp[]> = difySupportedUrls;
+
+  private readonly endpoints: DifyEndpoints;
+  private readonly config: DifyModelConfig;
+
+  constructor(
+    modelId: DifyCompletionModelId,
+    private settings: DifyCompletionSettings,
+    config: DifyModelConfig
+  ) {
+    this.modelId = modelId;
+    this.config = config;
+    this.endpoints = createDifyEndpoints(this.config.baseURL);
+    if (!this.settings.responseMode) {
+      this.settings.responseMode = "streaming";
+    }
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  async doGenerate(
+    options: LanguageModelV2CallOptions
+  ): Promise<Awaited<ReturnType<LanguageModelV2["doGenerate"]>>> {
+    const { abortSignal } = options;
+    const { body: requestBody, warnings } = await this.getRequestBody(options);
+
+    const { responseHeaders, value: response } = await postJsonToApi({
+      url: this.endpoints.completionMessages,
+      headers: combineHeaders(this.config.headers(options.headers), options.headers),
+      body: requestBody,
+      abortSignal,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler:
+        createDifyResponseHandler<CompletionMessageResponse>(
+          completionMessageResponseSchema
+        ),
+      fetch: this.config.fetch,
+    });
+
+    if (response.type === "stream") {
+      const result = await collectStreamParts(
+        withJsonResponseFormat(
+          response.value.pipeThrough(
+            createChatStreamTransformer({
+              ...this.stopTaskOnAbort(options, requestBody.user),
+              reasoning: this.settings.reasoning,
+              url: this.endpoints.completionMessages,
+              requestBodyValues: requestBody,
+              warnings,
+            })
+          ),
+          options.responseFormat
+        )
+      );
+
+      return {
+        ...result,
+        warnings,
+        request: { body: JSON.stringify(requestBody) },
+        response: {
+          id: result.responseId,
+          timestamp: new Date(),
+          headers: responseHeaders,
+        },
+      };
+    }
+
+    const typedData = response.value;
+    const messageId = typedData.message_id ?? typedData.id;
+    const content: LanguageModelV2Content[] = [];
+
+    content.push(
+      ...extractReasoningContent(typedData.answer, this.settings.reasoning)
+    );
+    content.push(
+      ...convertRetrieverResources(typedData.metadata.retriever_resources)
+    );
+
+    return {
+      content:
+        options.responseFormat?.type === "json"
+          ? extractJsonContent(content)
+          : content,
+      finishReason: "stop",
+      usage: {
+        inputTokens: typedData.metadata.usage.prompt_tokens,
+        outputTokens: typedData.metadata.usage.completion_tokens,
+        totalTokens: typedData.metadata.usage.total_tokens,
+      },
+      warnings,
+      providerMetadata: {
+        dify: {
+          messageId,
+          taskId: typedData.task_id,
+        },
+      },
+      request: { body: JSON.stringify(requestBody) },
+      response: {
+        id: typedData.id,
+        timestamp:
+          typedData.created_at != null
+            ? new Date(typedData.created_at * 1000)
+            : new Date(),
+        headers: responseHeaders,
+      },
+    };
+  }
+
+  async doStream(
+    options: LanguageModelV2CallOptions
+  ): Promise<Awaited<ReturnType<LanguageModelV2["doStream"]>>> {
+    const { abortSignal } = options;
+    const { body: requestBody, warnings } = await this.getRequestBody(options);
+    const body = { ...requestBody, response_mode: "streaming" };
+
+    const { responseHeaders, value: responseStream } = await postJsonToApi({
+      url: this.endpoints.completionMessages,
+      headers: combineHeaders(this.config.headers(options.headers), options.headers),
+      body,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler: createEventSourceResponseHandler(
+        difyStreamEventSchema as any
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      stream: withJsonResponseFormat(
+        (
+          responseStream as ReadableStream<ParseResult<DifyStreamEvent>>
+        ).pipeThrough(
+          createChatStreamTransformer({
+            ...this.stopTaskOnAbort(options, body.user),
+            reasoning: this.settings.reasoning,
+            url: this.endpoints.completionMessages,
+            requestBodyValues: body,
+            warnings,
+          })
+        ),
+        options.responseFormat
+      ),
+      request: { body: JSON.stringify(body) },
+      response: { headers: responseHeaders },
+    };
+  }
+
+  /**
+   * Stops the Dify task when the call is aborted while the response is streamed
+   */
+  private stopTaskOnAbort(options: LanguageModelV2CallOptions, user: string) {
+    return stopTaskOnAbort({
+      abortSignal: options.abortSignal,
+      stop: (taskId) =>
+        stopDifyTask({
+          url: this.endpoints.completionMessageStop(taskId),
+          headers: combineHeaders(this.config.headers(options.headers), options.headers),
+          fetch: this.config.fetch,
+          user,
+        }),
+    });
+  }
+
+  /**
+   * Get the request body for the Dify completion API and the warnings of the call
+   */
+  private async getRequestBody(options: LanguageModelV2CallOptions) {
+    const messages = options.prompt;
+
+    if (!messages || !messages.length) {
+      throw new InvalidPromptError({
+        prompt: messages,
+        message: "No messages provided",
+      });
+    }
+
+    const latestMessage = messages[messages.length - 1];
+    if (latestMessage.role !== "user") {
+      throw new InvalidPromptError({
+        prompt: messages,
+        message: "The last message must be a user message",
+      });
+    }
+
+    const query = latestMessage.content
+      .filter((part) => part.type === "text")
+      .map((part) => part.text)
+      .join(" ");
+
+    const { providerOptions, headers, warnings } =
+      resolveDifyProviderOptions(options);
+    const userId = providerOptions.user ?? "you_should_pass_user-id";
+    options.headers = headers;
+
+    const inputs = {
+      [this.settings.queryVariable ?? "query"]: query,
+      ...getCallOptionInputs(
+        options,
+        this.settings.callOptionInputs,
+        warnings
+      ),
+      ...getJsonSchemaInputs(
+        options.responseFormat,
+        this.settings.jsonSchemaVariable ?? "json_schema",
+        warnings
+      ),
+      ...providerOptions.inputs,
+      ...(this.settings.inputs || {}),
+    };
+
+    // validate before files are uploaded, so that an invalid request leaves nothing behind
+    if (this.settings.validateInputs) {
+      await validateDifyInputs(this.config, inputs, options.abortSignal);
+    }
+
+    const files = await convertToDifyFiles(
+      latestMessage.content.filter((part) => part.type === "file"),
+      (file) =>
+        uploadDifyFile({
+          ...file,
+          url: this.endpoints.filesUpload,
+          headers: combineHeaders(this.config.headers(options.headers), options.headers),
+          fetch: this.config.fetch,
+          user: userId,
+          abortSignal: options.abortSignal,
+        })
+    );
+
+    const body = {
+      inputs,
+      response_mode: this.settings.responseMode,
+      user: userId,
+      ...(files.length > 0 || providerOptions.files
+        ? { files: [...files, ...(providerOptions.files ?? [])] }
+        : {}),
+    };
+
+    return { body, warnings };
+  }
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createDifyProvider } from "./dify-provider";
+import {
+  DifyJsonFileConversationStore,
+  DifyMemoryConversationStore,
+} from "./dify-conversation-store";
+
+describe("DifyMemoryConversationStore", () => {
+  it("should set, get and delete conversation ids", () => {
+    const store = new DifyMemoryConversationStore();
+
+    store.set("session-1", "conv1");
+
+    expect(store.get("session-1")).toBe("conv1");
+    expect(store.get("session-2")).toBeUndefined();
+    store.delete("session-1");
+    expect(store.get("session-1")).toBeUndefined();
+  });
+});
+
+describe("DifyJsonFileConversationStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "dify-conversations-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should start without a file and persist the conversation ids", async () => {
+    const path = join(directory, "conversations.json");
+    const store = new DifyJsonFileConversationStore(path);
+
+    expect(await store.get("session-1")).toBeUndefined();
+    await Promise.all([store.set("session-1", "conv1"), store.set("session-2", "conv2")]);
+    await store.delete("session-2");
+
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({ "session-1": "conv1" });
+    expect(await new DifyJsonFileConversationStore(path).get("session-1")).toBe("conv1");
+  });
+
+  it("should not read inherited properties as conversations", async () => {
+    const store = new DifyJsonFileConversationStore(join(directory, "conversations.json"));
+
+    expect(await store.get("constructor")).toBeUndefined();
+  });
+
+  it("should report a file that is not valid JSON", async () => {
+    const path = join(directory, "conversations.json");
+    await writeFile(path, "{ not json");
+
+    await expect(new DifyJsonFileConversationStore(path).get("session-1")).rejects.toThrow(
+      SyntaxError
+    );
+  });
+});
+
+describe("provider conversationStore", () => {
+  const prompt = [{ role: "user", content: [{ type: "text", text: "Hi" }] }] as any;
+
+  const sseResponse = (conversationId: string) =>
+    new Response(
+      [
+        { event: "message", id: "msg1", message_id: "msg1", conversation_id: conversationId, answer: "Hello" },
+        { event: "message_end", id: "msg1", message_id: "msg1", conversation_id: conversationId, metadata: {} },
+      ]
+        .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+        .join(""),
+      { status: 200, headers: { "Content-Type": "text/event-stream" } }
+    );
+
+  const notFoundResponse = () =>
+    new Response(
+      JSON.stringify({ code: "not_found", message: "Conversation Not Exists.", status: 404 }),
+      { status: 404, headers: { "Content-Type": "application/json" } }
+    );
+
+  function makeModel(responses: Array<() => Response>, settings: any = {}) {
+    const store = new DifyMemoryConversationStore();
+    const bodies: any[] = [];
+    const fetch = async (url: string, options: any) => {
+      bodies.push(JSON.parse(options.body));
+      return responses[bodies.length - 1]();
+    };
+    const provider = createDifyProvider({
+      baseURL: "https://mock.api/v1",
+      apiKey: "app-key",
+      fetch: fetch as any,
+      conversationStore: store,
+    });
+    return { model: provider("app", settings), store, bodies };
+  }
+
+  async function readAll(stream: ReadableStream<any>) {
+    const parts: any[] = [];
+    const reader = stream.getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      parts.push(value);
+    }
+    return parts;
+  }
+
+  it("should save the conversation of a session after the answer", async () => {
+    const { model, store, bodies } = makeModel([
+      () => sseResponse("conv1"),
+      () => sseResponse("conv1"),
+    ]);
+    const providerOptions = { dify: { sessionKey: "session-1", user: "user-1" } };
+
+    const { stream } = await model.doStream({ prompt, providerOptions } as any);
+    await readAll(stream);
+    expect(store.get("session-1")).toBe("conv1");
+
+    await model.doGenerate({ prompt, providerOptions } as any);
+    expect(bodies[0].conversation_id).toBeUndefined();
+    expect(bodies[1].conversation_id).toBe("conv1");
+  });
+
+  it("should return the answer when the store cannot be written", async () => {
+    const failingSet = () => {
+      throw new Error("Store is read-only");
+    };
+    const providerOptions = { dify: { sessionKey: "session-1" } };
+    const { model, store } = makeModel([() => sseResponse("conv1"), () => sseResponse("conv1")]);
+    store.set = failingSet;
+
+    const { stream } = await model.doStream({ prompt, providerOptions } as any);
+    const parts = await readAll(stream);
+    expect(parts.some((part) => part.type === "error")).toBe(false);
+    expect(parts.at(-1).providerMetadata.dify.conversationStoreError).toBe("Store is read-only");
+
+    const result = await model.doGenerate({ prompt, providerOptions } as any);
+    expect(result.content).toEqual([{ type: "text", text: "Hello" }]);
+    expect(result.providerMetadata?.dify.conversationStoreError).toBe("Store is read-only");
+
+    const blocking = makeModel(
+      [
+        () =>
+          new Response(
+            JSON.stringify({ event: "message", id: "msg1", message_id: "msg1", conversation_id: "conv1", task_id: "task1", answer: "Hello", metadata: { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } } }),
+            { status: 200, headers: { "Content-Type": "application/json" } }
+          ),
+      ],
+      { responseMode: "blocking" }
+    );
+    blocking.store.set = failingSet;
+
+    const blockingResult = await blocking.model.doGenerate({ prompt, providerOptions } as any);
+    expect(blockingResult.content).toEqual([{ type: "text", text: "Hello" }]);
+    expect(blockingResult.providerMetadata?.dify.conversationStoreError).toBe(
+      "Store is read-only"
+    );
+  });
+
+  it("should start a new conversation when the stored one no longer exists", async () => {
+    const { model, store, bodies } = makeModel([notFoundResponse, () => sseResponse("conv2")]);
+    store.set("session-1", "expired");
+
+    const { stream } = await model.doStream({
+      prompt,
+      providerOptions: { dify: { sessionKey: "session-1" } },
+    } as any);
+    const parts = await readAll(stream);
+
+    expect(bodies.map((body) => body.conversation_id)).toEqual(["expired", undefined]);
+    expect(store.get("session-1")).toBe("conv2");
+    expect(parts[0].warnings).toEqual([
+      {
+        type: "other",
+        message: expect.stringContaining('The conversation expired of session "session-1" no longer exists'),
+      },
+    ]);
+  });
+
+  it("should send the earlier messages when a new conversation is started", async () => {
+    const historyPrompt = [
+      { role: "user", content: [{ type: "text", text: "My name is Ada" }] },
+      { role: "assistant", content: [{ type: "text", text: "Nice to meet you" }] },
+      { role: "user", content: [{ type: "text", text: "What is my name?" }] },
+    ] as any;
+
+    const withHistory = makeModel([notFoundResponse, () => sseResponse("conv2")], {
+      historyMode: { type: "input" },
+    });
+    withHistory.store.set("session-1", "expired");
+    await withHistory.model.doGenerate({
+      prompt: historyPrompt,
+      providerOptions: { dify: { sessionKey: "session-1", inputs: { tone: "calm" } } },
+    } as any);
+
+    expect(withHistory.bodies[0].inputs).toEqual({ tone: "calm" });
+    expect(withHistory.bodies[1].inputs).toEqual({
+      history: "User: My name is Ada\n\nAssistant: Nice to meet you",
+      tone: "calm",
+    });
+    expect(withHistory.bodies[1].query).toBe("What is my name?");
+
+    const withoutHistory = makeModel([notFoundResponse, () => sseResponse("conv2")]);
+    withoutHistory.store.set("session-1", "expired");
+    const result = await withoutHistory.model.doGenerate({
+      prompt: historyPrompt,
+      providerOptions: { dify: { sessionKey: "session-1" } },
+    } as any);
+
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ message: expect.stringContaining("no longer exists") }),
+      expect.objectContaining({ message: expect.stringContaining("2 earlier prompt message(s) were not sent") }),
+    ]);
+  });
+
+  it("should not retry a conversation id passed by the caller", async () => {
+    const { model, bodies } = makeModel([notFoundResponse]);
+
+    await expect(
+      model.doGenerate({
+        prompt,
+        providerOptions: { dify: { sessionKey: "session-1", conversationId: "gone" } },
+      } as any)
+    ).rejects.toThrow("Conversation Not Exists.");
+    expect(bodies).toHaveLength(1);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Maps keys of your own sessions to Dify conversation ids, so that chat models continue
+ * the conversation of a session without passing its `conversationId` on every call.
+ * Dify conversations belong to an app and a user, so the key should identify both.
+ */
+export interface DifyConversationStore {
+  get(key: string): Promise<string | undefined> | string | undefined;
+  set(key: string, conversationId: string): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+}
+
+/**
+ * Keeps the conversation ids in memory, e.g. for a single server process or tests.
+ */
+export class DifyMemoryConversationStore implements DifyConversationStore {
+  private readonly conversations = new Map<string, string>();
+
+  get(key: string): string | undefined {
+    return this.conversations.get(key);
+  }
+
+  set(key: string, conversationId: string): void {
+    this.conversations.set(key, conversationId);
+  }
+
+  delete(key: string): void {
+    this.conversations.delete(key);
+  }
+}
+
+/**
+ * Keeps the conversation ids in a JSON file (`{ "<key>": "<conversationId>" }`), so
+ * that they survive restarts. Requires Node.js. Writes are queued, and the file is
+ * replaced through a temporary file, so that it is never left half-written.
+ */
+export class DifyJsonFileConversationStore implements DifyConversationStore {
+  private conversations: Promise<Record<string, string>> | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const conversations = await this.load();
+    return Object.prototype.hasOwnProperty.call(conversations, key)
+      ? conversations[key]
+      : undefined;
+  }
+
+  set(key: string, conversationId: string): Promise<void> {
+    return this.update((conversations) => {
+      conversations[key] = conversationId;
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.update((conversations) => {
+      delete conversations[key];
+    });
+  }
+
+  private load(): Promise<Record<string, string>> {
+    this.conversations ??= import("node:fs/promises")
+      .then((fs) => fs.readFile(this.path, "utf8"))
+      .then((content) => JSON.parse(content) as Record<string, string>)
+      .catch((error) => {
+        // no file yet
+        if (error?.code === "ENOENT") {
+          return {};
+        }
+        this.conversations = undefined;
+        throw error;
+      });
+    return this.conversations;
+  }
+
+  private update(
+    change: (conversations: Record<string, string>) => void
+  ): Promise<void> {
+    const write = this.writes.then(async () => {
+      const conversations = await this.load();
+      change(conversations);
+
+      const fs = await import("node:fs/promises");
+      const temporaryPath = `${this.path}.${process.pid}.tmp`;
+      await fs.writeFile(temporaryPath, JSON.stringify(conversations, null, 2));
+      await fs.rename(temporaryPath, this.path);
+    });
+    // a failed write is reported to its caller, later writes still run
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { APICallError } from "@ai-sdk/provider";
+import { createDifyProvider } from "./dify-provider";
+
+function createCapturingFetch(
+  responseBody: any,
+  { status = 200 }: { status?: number } = {}
+) {
+  const calls: { url: string; options: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, options });
+    return new Response(
+      responseBody === undefined ? null : JSON.stringify(responseBody),
+      { status, headers: { "Content-Type": "application/json" } }
+    );
+  };
+  return { calls, fetch: fetch as any };
+}
+
+function makeProvider(fetch: any) {
+  return createDifyProvider({
+    baseURL: "https://mock.api/v1",
+    apiKey: "app-key",
+    fetch,
+  });
+}
+
+const conversation = {
+  id: "conv1",
+  name: "Weather chat",
+  inputs: {},
+  status: "normal",
+  introduction: "",
+  created_at: 1705395332,
+  updated_at: 1705395400,
+};
+
+describe("provider.conversations", () => {
+  it("should list conversations with pagination parameters", async () => {
+    const { calls, fetch } = createCapturingFetch({
+      data: [conversation],
+      has_more: true,
+      limit: 1,
+    });
+
+    const result = await makeProvider(fetch).conversations.list({
+      user: "user-1",
+      lastId: "conv0",
+      limit: 1,
+      sortBy: "-updated_at",
+    });
+
+    const url = new URL(calls[0].url);
+    expect(url.pathname).toBe("/v1/conversations");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      user: "user-1",
+      last_id: "conv0",
+      limit: "1",
+      sort_by: "-updated_at",
+    });
+    expect(calls[0].options.method).toBe("GET");
+    expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-key");
+    expect(result.has_more).toBe(true);
+    expect(result.data[0].name).toBe("Weather chat");
+  });
+
+  it("should rename a conversation or let Dify generate the name", async () => {
+    const { calls, fetch } = createCapturingFetch(conversation);
+    const provider = makeProvider(fetch);
+
+    await provider.conversations.rename({
+      conversationId: "conv1",
+      name: "Weather chat",
+      user: "user-1",
+    });
+    await provider.conversations.rename({
+      conversationId: "conv1",
+      autoGenerate: true,
+      user: "user-1",
+      apiKey: "app-other",
+    });
+
+    expect(calls[0].url).toBe("https://mock.api/v1/conversations/conv1/name");
+    expect(JSON.parse(calls[0].options.body)).toEqual({
+      name: "Weather chat",
+      auto_generate: false,
+      user: "user-1",
+    });
+    expect(JSON.parse(calls[1].options.body)).toEqual({
+      auto_generate: true,
+      user: "user-1",
+    });
+    expect(calls[1].options.headers["Authorization"]).toBe("Bearer app-other");
+  });
+
+  it("should delete a conversation", async () => {
+    const { calls, fetch } = createCapturingFetch(undefined, { status: 204 });
+
+    await makeProvider(fetch).conversations.delete({
+      conversationId: "conv1",
+      user: "user-1",
+    });
+
+    expect(calls[0].url).toBe("https://mock.api/v1/conversations/conv1");
+    expect(calls[0].options.method).toBe("DELETE");
+    expect(JSON.parse(calls[0].options.body)).toEqual({ user: "user-1" });
+  });
+
+  it("should list the messages of a conversation", async () => {
+    const { calls, fetch } = createCapturingFetch({
+      data: [
+        {
+          id: "msg1",
+          conversation_id: "conv1",
+          inputs: {},
+          query: "How is the weather?",
+          answer: "Sunny",
+          message_files: [],
+          feedback: null,
+          retriever_resources: [],
+          created_at: 1705395332,
+        },
+      ],
+      has_more: false,
+      limit: 20,
+    });
+
+    const result = await makeProvider(fetch).conversations.messages({
+      conversationId: "conv1",
+      user: "user-1",
+      firstId: "msg2",
+    });
+
+    const url = new URL(calls[0].url);
+    expect(url.pathname).toBe("/v1/messages");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      conversation_id: "conv1",
+      user: "user-1",
+      first_id: "msg2",
+    });
+    expect(result.data[0].answer).toBe("Sunny");
+  });
+
+  it("should map Dify errors to API call errors", async () => {
+    const { fetch } = createCapturingFetch(
+      {
+        code: "not_found",
+        message: "Conversation Not Exists.",
+        status: 404,
+      },
+      { status: 404 }
+    );
+
+    const error = await makeProvider(fetch)
+      .conversations.delete({ conversationId: "missing", user: "user-1" })
+      .catch((error) => error);
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error.statusCode).toBe(404);
+    expect(error.message).toBe("Dify API error: Conversation Not Exists.");
+  });
+});
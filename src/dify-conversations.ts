@@ -0,0 +1,190 @@
+import {
+  createJsonResponseHandler,
+  getFromApi,
+  postJsonToApi,
+  extractResponseHeaders,
+  type FetchFunction,
+  type ResponseHandler,
+} from "@ai-sdk/provider-utils";
+import {
+  conversationListResponseSchema,
+  conversationSchema,
+  messageListResponseSchema,
+  type Conversation,
+  type ConversationListResponse,
+  type MessageListResponse,
+} from "./dify-chat-schema";
+import { createDifyEndpoints } from "./dify-endpoints";
+import { difyFailedResponseHandler } from "./dify-error";
+import type { DifyClientConfig } from "./dify-model-config";
+
+interface DifyRequestOptions {
+  // the end user, conversations are only visible to the user that created them
+  user: string;
+  // API key of the app, when it differs from the provider's default key
+  apiKey?: string;
+  abortSignal?: AbortSignal;
+}
+
+export interface DifyListConversationsOptions extends DifyRequestOptions {
+  // id of the last conversation of the previous page
+  lastId?: string;
+  // page size, Dify defaults to 20
+  limit?: number;
+  sortBy?: "created_at" | "-created_at" | "updated_at" | "-updated_at";
+}
+
+export interface DifyRenameConversationOptions extends DifyRequestOptions {
+  conversationId: string;
+  // the new name, may be omitted when `autoGenerate` is set
+  name?: string;
+  // let Dify generate the name from the conversation
+  autoGenerate?: boolean;
+}
+
+export interface DifyDeleteConversationOptions extends DifyRequestOptions {
+  conversationId: string;
+}
+
+export interface DifyListMessagesOptions extends DifyRequestOptions {
+  conversationId: string;
+  // id of the first message of the current page, to load older messages
+  firstId?: string;
+  // page size, Dify defaults to 20
+  limit?: number;
+}
+
+/**
+ * Client for the conversation APIs of Dify chat apps.
+ */
+export interface DifyConversations {
+  // lists the conversations of a user, newest first by default
+  list(options: DifyListConversationsOptions): Promise<ConversationListResponse>;
+
+  // renames a conversation, or lets Dify generate the name
+  rename(options: DifyRenameConversationOptions): Promise<Conversation>;
+
+  // deletes a conversation
+  delete(options: DifyDeleteConversationOptions): Promise<void>;
+
+  // lists the messages of a conversation, pages go back in time from `firstId`
+  messages(options: DifyListMessagesOptions): Promise<MessageListResponse>;
+}
+
+export function createDifyConversations(
+  config: DifyClientConfig
+): DifyConversations {
+  const endpoints = createDifyEndpoints(config.baseURL);
+
+  return {
+    async list({ user, lastId, limit, sortBy, apiKey, abortSignal }) {
+      const { value } = await getFromApi({
+        url: withQuery(endpoints.conversations, {
+          user,
+          last_id: lastId,
+          limit,
+          sort_by: sortBy,
+        }),
+        headers: config.headers(apiKey),
+        failedResponseHandler: difyFailedResponseHandler,
+        successfulResponseHandler: createJsonResponseHandler(
+          conversationListResponseSchema as any
+        ),
+        abortSignal,
+        fetch: config.fetch,
+      });
+
+      return value as ConversationListResponse;
+    },
+
+    async rename({
+      conversationId,
+      name,
+      autoGenerate,
+      user,
+      apiKey,
+      abortSignal,
+    }) {
+      const { value } = await postJsonToApi({
+        url: endpoints.conversationName(conversationId),
+        headers: config.headers(apiKey),
+        body: { name, auto_generate: autoGenerate ?? false, user },
+        failedResponseHandler: difyFailedResponseHandler,
+        successfulResponseHandler: createJsonResponseHandler(
+          conversationSchema as any
+        ),
+        abortSignal,
+        fetch: config.fetch,
+      });
+
+      return value as Conversation;
+    },
+
+    async delete({ conversationId, user, apiKey, abortSignal }) {
+      // Dify answers with 204 or `{ result: "success" }` depending on the version,
+      // so the body is not parsed
+      await postJsonToApi({
+        url: endpoints.conversation(conversationId),
+        headers: config.headers(apiKey),
+        body: { user },
+        failedResponseHandler: difyFailedResponseHandler,
+        successfulResponseHandler: ignoreResponseBody,
+        abortSignal,
+        fetch: withMethod("DELETE", config.fetch),
+      });
+    },
+
+    async messages({
+      conversationId,
+      user,
+      firstId,
+      limit,
+      apiKey,
+      abortSignal,
+    }) {
+      const { value } = await getFromApi({
+        url: withQuery(endpoints.messages, {
+          conversation_id: conversationId,
+          user,
+          first_id: firstId,
+          limit,
+        }),
+        headers: config.headers(apiKey),
+        failedResponseHandler: difyFailedResponseHandler,
+        successfulResponseHandler: createJsonResponseHandler(
+          messageListResponseSchema as any
+        ),
+        abortSignal,
+        fetch: config.fetch,
+      });
+
+      return value as MessageListResponse;
+    },
+  };
+}
+
+function withQuery(
+  url: string,
+  params: Record<string, string | number | undefined>
+): string {
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      query.set(name, String(value));
+    }
+  }
+  return `${url}?${query.toString()}`;
+}
+
+// provider-utils only sends GET and POST requests, so other methods are set on the fetch call
+function withMethod(
+  method: string,
+  fetch: FetchFunction = globalThis.fetch
+): FetchFunction {
+  return (input, init) => fetch(input, { ...init, method });
+}
+
+const ignoreResponseBody: ResponseHandler<void> = async ({ response }) => {
+  await response.body?.cancel();
+  return { value: undefined, responseHeaders: extractResponseHeaders(response) };
+};
@@ -0,0 +1,54 @@
+import { withoutTrailingSlash } from "@ai-sdk/provider-utils";
+
+export const DEFAULT_DIFY_BASE_URL = "https://api.dify.ai/v1";
+
+// Earlier versions posted to `baseURL` directly, so it was configured as a full endpoint URL.
+const LEGACY_ENDPOINT_PATTERN =
+  /\/(chat-messages|completion-messages|workflows\/run)$/;
+
+/**
+ * Returns the Dify API root (e.g. `https://api.dify.ai/v1`) for a configured base URL.
+ * Full endpoint URLs such as `https://api.dify.ai/v1/chat-messages` are still accepted.
+ */
+export function getDifyApiRoot(baseURL: string = DEFAULT_DIFY_BASE_URL): string {
+  const url = withoutTrailingSlash(baseURL) ?? DEFAULT_DIFY_BASE_URL;
+  return url.replace(LEGACY_ENDPOINT_PATTERN, "");
+}
+
+export type DifyEndpoints = ReturnType<typeof createDifyEndpoints>;
+
+/**
+ * Builds the URLs of the Dify service API endpoints from the configured base URL.
+ */
+export function createDifyEndpoints(baseURL?: string) {
+  const root = getDifyApiRoot(baseURL);
+  const encode = encodeURIComponent;
+
+  return {
+    root,
+    chatMessages: `${root}/chat-messages`,
+    chatMessageStop: (taskId: string) =>
+      `${root}/chat-messages/${encode(taskId)}/stop`,
+    completionMessages: `${root}/completion-messages`,
+    completionMessageStop: (taskId: string) =>
+      `${root}/completion-messages/${encode(taskId)}/stop`,
+    workflowsRun: `${root}/workflows/run`,
+    workflowTaskStop: (taskId: string) =>
+      `${root}/workflows/tasks/${encode(taskId)}/stop`,
+    filesUpload: `${root}/files/upload`,
+    conversations: `${root}/conversations`,
+    conversation: (conversationId: string) =>
+      `${root}/conversations/${encode(conversationId)}`,
+    conversationName: (conversationId: string) =>
+      `${root}/conversations/${encode(conversationId)}/name`,
+    messages: `${root}/messages`,
+    messageFeedbacks: (messageId: string) =>
+      `${root}/messages/${encode(messageId)}/feedbacks`,
+    messageSuggested: (messageId: string) =>
+      `${root}/messages/${encode(messageId)}/suggested`,
+    textToAudio: `${root}/text-to-audio`,
+    audioToText: `${root}/audio-to-text`,
+    parameters: `${root}/parameters`,
+    info: `${root}/info`,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { APICallError } from "@ai-sdk/provider";
+import {
+  DifyAPIError,
+  DifyAppUnavailableError,
+  DifyConversationNotExistsError,
+  DifyInvalidParamError,
+  DifyQuotaExceededError,
+  difyFailedResponseHandler,
+} from "./dify-error";
+
+async function handleError(body: unknown, status: number) {
+  const response = new Response(
+    typeof body === "string" ? body : JSON.stringify(body),
+    { status, headers: { "Content-Type": "application/json" } }
+  );
+  const { value } = await difyFailedResponseHandler({
+    url: "https://mock.api/v1/chat-messages",
+    requestBodyValues: { query: "Hi" },
+    response,
+  });
+  return value;
+}
+
+describe("difyFailedResponseHandler", () => {
+  it.each([
+    ["conversation_not_exists", 404, DifyConversationNotExistsError],
+    ["provider_quota_exceeded", 400, DifyQuotaExceededError],
+    ["app_unavailable", 400, DifyAppUnavailableError],
+    ["invalid_param", 400, DifyInvalidParamError],
+  ])("should map %s to its error class", async (code, status, errorClass) => {
+    const error = await handleError({ code, message: "Failed", status }, status);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(errorClass.isInstance(error)).toBe(true);
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error).toMatchObject({
+      code,
+      statusCode: status,
+      isRetryable: false,
+      message: "Dify API error: Failed",
+      url: "https://mock.api/v1/chat-messages",
+    });
+  });
+
+  it("should recognize missing conversations reported as not_found", async () => {
+    const error = await handleError(
+      { code: "not_found", message: "Conversation Not Exists.", status: 404 },
+      404
+    );
+
+    expect(DifyConversationNotExistsError.isInstance(error)).toBe(true);
+  });
+
+  it("should retry upstream model errors and fall back to the status code", async () => {
+    const completionError = await handleError(
+      { code: "completion_request_error", message: "Upstream failed", status: 400 },
+      400
+    );
+    const serverError = await handleError(
+      { code: "internal_server_error", message: "Oops", status: 500 },
+      500
+    );
+    const badRequest = await handleError(
+      { code: "bad_request", message: "Nope", status: 400 },
+      400
+    );
+
+    expect(completionError.isRetryable).toBe(true);
+    expect(DifyAPIError.isInstance(serverError)).toBe(true);
+    expect(serverError.isRetryable).toBe(true);
+    expect(badRequest.isRetryable).toBe(false);
+  });
+
+  it("should keep a plain API call error for bodies without a Dify code", async () => {
+    const error = await handleError("Bad Gateway", 502);
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(DifyAPIError.isInstance(error)).toBe(false);
+    expect(error.isRetryable).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+import { APICallError } from "@ai-sdk/provider";
+import {
+  createJsonErrorResponseHandler,
+  type ResponseHandler,
+} from "@ai-sdk/provider-utils";
+import {
+  errorResponseSchema,
+  type ErrorEvent,
+  type ErrorResponse,
+} from "./dify-chat-schema";
+
+type DifyAPIErrorOptions = ConstructorParameters<typeof APICallError>[0] & {
+  code: string;
+};
+
+// retrying does not help with these, whatever the status code says
+const nonRetryableCodes = new Set([
+  "conversation_not_exists",
+  "not_found",
+  "invalid_param",
+  "app_unavailable",
+  "provider_not_initialize",
+  "provider_quota_exceeded",
+  "model_currently_not_support",
+]);
+
+// failures of the upstream model provider, which are usually temporary
+const retryableCodes = new Set(["completion_request_error"]);
+
+function isRetryableCode(code: string): boolean | undefined {
+  if (retryableCodes.has(code)) {
+    return true;
+  }
+  return nonRetryableCodes.has(code) ? false : undefined;
+}
+
+/**
+ * An error reported by the Dify API, with Dify's error `code` (e.g. `invalid_param`).
+ * It is an `APICallError` (and keeps its name), so the AI SDK retries it when
+ * `isRetryable` is set. Use `isInstance` or `code` to tell the errors apart.
+ */
+export class DifyAPIError extends APICallError {
+  readonly code: string;
+
+  constructor({ code, isRetryable, ...options }: DifyAPIErrorOptions) {
+    super({ ...options, isRetryable: isRetryable ?? isRetryableCode(code) });
+    this.code = code;
+  }
+
+  static isInstance(error: unknown): error is DifyAPIError {
+    return error instanceof DifyAPIError;
+  }
+}
+
+/**
+ * The conversation does not exist (anymore), e.g. because it was deleted or expired.
+ */
+export class DifyConversationNotExistsError extends DifyAPIError {
+  static isInstance(error: unknown): error is DifyConversationNotExistsError {
+    return error instanceof DifyConversationNotExistsError;
+  }
+}
+
+/**
+ * The quota of the model provider configured in the Dify app is used up.
+ */
+export class DifyQuotaExceededError extends DifyAPIError {
+  static isInstance(error: unknown): error is DifyQuotaExceededError {
+    return error instanceof DifyQuotaExceededError;
+  }
+}
+
+/**
+ * The Dify app is not available, e.g. because its configuration is incomplete.
+ */
+export class DifyAppUnavailableError extends DifyAPIError {
+  static isInstance(error: unknown): error is DifyAppUnavailableError {
+    return error instanceof DifyAppUnavailableError;
+  }
+}
+
+/**
+ * The request has invalid or missing parameters, e.g. a required input variable.
+ */
+export class DifyInvalidParamError extends DifyAPIError {
+  static isInstance(error: unknown): error is DifyInvalidParamError {
+    return error instanceof DifyInvalidParamError;
+  }
+}
+
+/**
+ * Creates the error class that matches Dify's error code.
+ */
+export function createDifyAPIError(options: DifyAPIErrorOptions): DifyAPIError {
+  switch (options.code) {
+    case "conversation_not_exists":
+      return new DifyConversationNotExistsError(options);
+    // newer Dify versions report missing conversations as a generic `not_found`
+    case "not_found":
+      return /conversation/i.test(options.message)
+        ? new DifyConversationNotExistsError(options)
+        : new DifyAPIError(options);
+    case "provider_quota_exceeded":
+      return new DifyQuotaExceededError(options);
+    case "app_unavailable":
+      return new DifyAppUnavailableError(options);
+    case "invalid_param":
+      return new DifyInvalidParamError(options);
+    default:
+      return new DifyAPIError(options);
+  }
+}
+
+/**
+ * Creates the error of an `error` event, which Dify sends when a streamed response
+ * fails after it has started.
+ */
+export function createDifyStreamError(
+  event: ErrorEvent,
+  request: { url?: string; requestBodyValues?: unknown }
+): DifyAPIError {
+  return createDifyAPIError({
+    code: event.code ?? "unknown",
+    message: `Dify API error: ${event.message}`,
+    url: request.url ?? "",
+    requestBodyValues: request.requestBodyValues,
+    statusCode: event.status,
+    data: event,
+  });
+}
+
+const jsonErrorResponseHandler = createJsonErrorResponseHandler({
+  errorSchema: errorResponseSchema as any,
+  errorToMessage: (data: ErrorResponse) => {
+    return `Dify API error: ${data.message}`;
+  },
+});
+
+export const difyFailedResponseHandler: ResponseHandler<APICallError> = async (
+  options
+) => {
+  const { value: error, responseHeaders } =
+    await jsonErrorResponseHandler(options);
+  const data = error.data as ErrorResponse | undefined;
+
+  if (data?.code == null) {
+    return { value: error, responseHeaders };
+  }
+
+  return {
+    value: createDifyAPIError({
+      code: data.code,
+      message: error.message,
+      url: error.url,
+      requestBodyValues: error.requestBodyValues,
+      statusCode: error.statusCode,
+      responseHeaders: error.responseHeaders,
+      responseBody: error.responseBody,
+      data,
+    }),
+    responseHeaders,
+  };
+};
@@ -0,0 +1,138 @@
+import type { LanguageModelV2FilePart } from "@ai-sdk/provider";
+import {
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  mediaTypeToExtension,
+  postFormDataToApi,
+  type FetchFunction,
+} from "@ai-sdk/provider-utils";
+import {
+  fileUploadResponseSchema,
+  type FileUploadResponse,
+} from "./dify-chat-schema";
+import { difyFailedResponseHandler } from "./dify-error";
+
+export type DifyFileType = "image" | "document" | "audio" | "video";
+
+/**
+ * A file entry of the `files` field of Dify's message APIs.
+ */
+export type DifyFile =
+  | { type: DifyFileType; transfer_method: "remote_url"; url: string }
+  | { type: DifyFileType; transfer_method: "local_file"; upload_file_id: string };
+
+const remoteUrl = [/^https?:\/\/.+$/];
+
+/**
+ * Media types whose URLs Dify downloads itself, so the AI SDK does not need to.
+ */
+export const difySupportedUrls: Record<string, RegExp[]> = {
+  "image/*": remoteUrl,
+  "audio/*": remoteUrl,
+  "video/*": remoteUrl,
+  "text/*": remoteUrl,
+  "application/pdf": remoteUrl,
+};
+
+export function getDifyFileType(mediaType: string): DifyFileType {
+  const [type] = mediaType.toLowerCase().split("/");
+  switch (type) {
+    case "image":
+    case "audio":
+    case "video":
+      return type;
+    default:
+      return "document";
+  }
+}
+
+/**
+ * Uploads a file through `/files/upload` so that it can be referenced as `local_file`.
+ */
+export async function uploadDifyFile({
+  url,
+  headers,
+  fetch,
+  data,
+  mediaType,
+  filename,
+  user,
+  abortSignal,
+}: {
+  url: string;
+  headers: Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  data: Uint8Array;
+  mediaType: string;
+  filename?: string;
+  user: string;
+  abortSignal?: AbortSignal;
+}): Promise<FileUploadResponse> {
+  const formData = new FormData();
+  formData.append(
+    "file",
+    new Blob([data as Uint8Array<ArrayBuffer>], { type: mediaType }),
+    filename ?? `file.${mediaTypeToExtension(mediaType)}`
+  );
+  formData.append("user", user);
+
+  const { value } = await postFormDataToApi({
+    url,
+    headers: withoutContentType(headers),
+    formData,
+    failedResponseHandler: difyFailedResponseHandler,
+    successfulResponseHandler: createJsonResponseHandler(
+      fileUploadResponseSchema as any
+    ),
+    abortSignal,
+    fetch,
+  });
+
+  return value as FileUploadResponse;
+}
+
+/**
+ * Converts AI SDK file parts into Dify files. URLs are passed as `remote_url`,
+ * binary and base64 data is uploaded first and passed as `local_file`.
+ */
+export async function convertToDifyFiles(
+  parts: LanguageModelV2FilePart[],
+  upload: (options: {
+    data: Uint8Array;
+    mediaType: string;
+    filename?: string;
+  }) => Promise<FileUploadResponse>
+): Promise<DifyFile[]> {
+  return Promise.all(
+    parts.map(async (part): Promise<DifyFile> => {
+      const type = getDifyFileType(part.mediaType);
+
+      if (part.data instanceof URL) {
+        return { type, transfer_method: "remote_url", url: part.data.toString() };
+      }
+
+      const data =
+        typeof part.data === "string"
+          ? convertBase64ToUint8Array(part.data)
+          : part.data;
+      const { id } = await upload({
+        data,
+        mediaType: part.mediaType,
+        filename: part.filename,
+      });
+
+      return { type, transfer_method: "local_file", upload_file_id: id };
+    })
+  );
+}
+
+// multipart requests need fetch to set the content type with the boundary
+export function withoutContentType(
+  headers: Record<string, string | undefined>
+): Record<string, string | undefined> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => name.toLowerCase() !== "content-type"
+    )
+  );
+}
@@ -0,0 +1,60 @@
+import type { LanguageModelV2FinishReason } from "@ai-sdk/provider";
+import type { NodeFinishedEvent } from "./dify-chat-schema";
+
+// finish reasons of LLM nodes whose output was cut off by the token limit
+const lengthFinishReasons = new Set(["length", "max_tokens"]);
+
+/**
+ * Whether a finished node is an LLM node that stopped at the token limit.
+ */
+export function isLengthTruncatedNode(event: NodeFinishedEvent): boolean {
+  const finishReason = event.data?.outputs?.finish_reason;
+  return (
+    event.data?.node_type === "llm" &&
+    typeof finishReason === "string" &&
+    lengthFinishReasons.has(finishReason)
+  );
+}
+
+/**
+ * Derives the finish reason of a response from what Dify reported about it:
+ * - an `error` event or a `failed` run: `error`
+ * - an answer replaced by output moderation: `content-filter`
+ * - a `stopped` run (e.g. stopped with the stop API): `other`
+ * - an LLM node that stopped at the token limit: `length`
+ * - a `partial-succeeded` run or a run with handled node exceptions: `other`
+ * - a finished response: `stop`, otherwise `unknown`
+ */
+export function mapDifyFinishReason({
+  status,
+  exceptionsCount,
+  hasError = false,
+  isLengthTruncated = false,
+  isModerated = false,
+  isFinished,
+}: {
+  // status of the workflow run, e.g. `succeeded`, `failed` or `stopped`
+  status?: string;
+  exceptionsCount?: number;
+  hasError?: boolean;
+  isLengthTruncated?: boolean;
+  isModerated?: boolean;
+  isFinished: boolean;
+}): LanguageModelV2FinishReason {
+  if (hasError || status === "failed") {
+    return "error";
+  }
+  if (isModerated) {
+    return "content-filter";
+  }
+  if (status === "stopped") {
+    return "other";
+  }
+  if (isLengthTruncated) {
+    return "length";
+  }
+  if (status === "partial-succeeded" || (exceptionsCount ?? 0) > 0) {
+    return "other";
+  }
+  return isFinished ? "stop" : "unknown";
+}
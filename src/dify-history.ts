@@ -0,0 +1,71 @@
+import type { LanguageModelV2Prompt } from "@ai-sdk/provider";
+
+/**
+ * How the messages before the last user message reach a Dify chat app:
+ * - `"conversation"`: Dify keeps the history of the conversation (`conversationId`), earlier
+ *   messages of the prompt are not sent
+ * - `{ type: "input", variable }`: the serialized history is sent in an input variable
+ *   of the app, `"history"` by default
+ * - `{ type: "query", prefix }`: the serialized history is put in front of the query.
+ *   `{{history}}` in the prefix is replaced with it
+ */
+export type DifyHistoryMode =
+  | "conversation"
+  | { type: "input"; variable?: string }
+  | { type: "query"; prefix?: string };
+
+const defaultQueryPrefix = "Conversation history:\n{{history}}\n\n";
+
+const roleLabels = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+} as const;
+
+/**
+ * Serializes the text of system, user and assistant messages into `Role: text`
+ * paragraphs. Files, reasoning and tool calls are left out.
+ */
+export function serializeDifyHistory(messages: LanguageModelV2Prompt): string {
+  return messages
+    .flatMap((message) => {
+      if (message.role === "tool") {
+        return [];
+      }
+      const text =
+        message.role === "system"
+          ? message.content
+          : message.content
+              .flatMap((part) => (part.type === "text" ? [part.text] : []))
+              .join(" ");
+      return text.trim() ? [`${roleLabels[message.role]}: ${text}`] : [];
+    })
+    .join("\n\n");
+}
+
+/**
+ * Adds the serialized history to the inputs or the query, following the history mode.
+ */
+export function applyDifyHistory({
+  historyMode,
+  history,
+  query,
+}: {
+  historyMode: Exclude<DifyHistoryMode, "conversation">;
+  history: LanguageModelV2Prompt;
+  query: string;
+}): { inputs: Record<string, string>; query: string } {
+  const serialized = serializeDifyHistory(history);
+  if (!serialized) {
+    return { inputs: {}, query };
+  }
+
+  if (historyMode.type === "input") {
+    return { inputs: { [historyMode.variable ?? "history"]: serialized }, query };
+  }
+
+  const prefix = (historyMode.prefix ?? defaultQueryPrefix)
+    .split("{{history}}")
+    .join(serialized);
+  return { inputs: {}, query: `${prefix}${query}` };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import type { LanguageModelV2StreamPart } from "@ai-sdk/provider";
+import {
+  createJsonStreamTransformer,
+  extractJson,
+  extractJsonContent,
+  getJsonSchemaInputs,
+} from "./dify-json-response";
+
+async function transform(parts: LanguageModelV2StreamPart[]) {
+  const stream = new ReadableStream<LanguageModelV2StreamPart>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(part));
+      controller.close();
+    },
+  }).pipeThrough(createJsonStreamTransformer());
+
+  const result: LanguageModelV2StreamPart[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    result.push(value);
+  }
+  return result;
+}
+
+describe("extractJson", () => {
+  it.each([
+    ['{"name":"Ada"}', '{"name":"Ada"}'],
+    ['```json\n{"name":"Ada"}\n```', '{"name":"Ada"}'],
+    ['```\n[1, 2]\n```', "[1, 2]"],
+    ['<think>\nThe user wants {a name}.\n</think>\n{"name":"Ada"}', '{"name":"Ada"}'],
+    ['Here is the result:\n{"name":"Ada"}\nHope this helps!', '{"name":"Ada"}'],
+    ['<think>Still thinking about {"name":"Bob"}', "<think>Still thinking about {\"name\":\"Bob\"}"],
+  ])("should extract the JSON of %j", (answer, json) => {
+    expect(extractJson(answer)).toBe(json);
+  });
+
+  it("should return answers without JSON unchanged", () => {
+    expect(extractJson("I can't help with that.")).toBe("I can't help with that.");
+  });
+});
+
+describe("extractJsonContent", () => {
+  it("should merge the text parts into the extracted JSON", () => {
+    expect(
+      extractJsonContent([
+        { type: "reasoning", text: "Thinking" },
+        { type: "text", text: '```json\n{"a":' },
+        { type: "text", text: " 1}\n```" },
+      ])
+    ).toEqual([
+      { type: "reasoning", text: "Thinking" },
+      { type: "text", text: '{"a": 1}' },
+    ]);
+  });
+});
+
+describe("createJsonStreamTransformer", () => {
+  it("should emit the extracted JSON as one text block before the finish part", async () => {
+    const finish: LanguageModelV2StreamPart = {
+      type: "finish",
+      finishReason: "stop",
+      usage: { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined },
+    };
+
+    const parts = await transform([
+      { type: "stream-start", warnings: [] },
+      { type: "text-start", id: "answer" },
+      { type: "text-delta", id: "answer", delta: "```json\n{\"a\"" },
+      { type: "text-delta", id: "answer", delta: ": 1}\n```" },
+      { type: "text-end", id: "answer" },
+      finish,
+    ]);
+
+    expect(parts).toEqual([
+      { type: "stream-start", warnings: [] },
+      { type: "text-start", id: "json" },
+      { type: "text-delta", id: "json", delta: '{"a": 1}' },
+      { type: "text-end", id: "json" },
+      finish,
+    ]);
+  });
+
+  it("should drop text replaced by output moderation", async () => {
+    const parts = await transform([
+      { type: "text-start", id: "answer" },
+      { type: "text-delta", id: "answer", delta: '{"secret": true}' },
+      { type: "text-end", id: "answer" },
+      { type: "text-start", id: "replacement-1", providerMetadata: { dify: { replacement: true } } },
+      { type: "text-delta", id: "replacement-1", delta: "Sorry." },
+      { type: "text-end", id: "replacement-1" },
+    ]);
+
+    expect(parts.filter((part) => part.type === "text-delta")).toEqual([
+      { type: "text-delta", id: "json", delta: "Sorry." },
+    ]);
+  });
+});
+
+describe("getJsonSchemaInputs", () => {
+  const schema = { type: "object", properties: { name: { type: "string" } } } as const;
+
+  it("should send the schema in the input variable", () => {
+    const warnings: any[] = [];
+
+    expect(getJsonSchemaInputs({ type: "json", schema }, "json_schema", warnings)).toEqual({
+      json_schema: JSON.stringify(schema),
+    });
+    expect(warnings).toEqual([
+      {
+        type: "unsupported-setting",
+        setting: "responseFormat",
+        details:
+          'Dify does not support JSON schemas natively. The schema is only passed in the "json_schema" input variable. ' +
+          "The JSON is extracted from the answer.",
+      },
+    ]);
+  });
+
+  it("should not warn about text response formats", () => {
+    const warnings: any[] = [];
+
+    expect(getJsonSchemaInputs({ type: "text" }, "json_schema", warnings)).toEqual({});
+    expect(getJsonSchemaInputs(undefined, "json_schema", warnings)).toEqual({});
+    expect(warnings).toEqual([]);
+  });
+
+  it("should warn when the schema is not sent", () => {
+    const warnings: any[] = [];
+
+    expect(getJsonSchemaInputs({ type: "json", schema }, false, warnings)).toEqual({});
+    expect(warnings).toEqual([
+      {
+        type: "unsupported-setting",
+        setting: "responseFormat",
+        details:
+          "The JSON schema is not sent to Dify because jsonSchemaVariable is false. " +
+          "The JSON is extracted from the answer.",
+      },
+    ]);
+  });
+
+  it("should warn about json response formats without a schema", () => {
+    const warnings: any[] = [];
+
+    expect(
+      getJsonSchemaInputs(
+        { type: "json", name: "contact", description: "A contact" },
+        "json_schema",
+        warnings
+      )
+    ).toEqual({});
+    expect(warnings).toEqual([
+      {
+        type: "unsupported-setting",
+        setting: "responseFormat",
+        details:
+          "Dify does not support JSON output natively. The JSON is extracted from the answer. " +
+          "The name and description of the response format are not sent.",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import type {
+  LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+  LanguageModelV2Content,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+
+type ResponseFormat = LanguageModelV2CallOptions["responseFormat"];
+
+/**
+ * Inputs that pass the JSON schema of a `json` response format to the Dify app, which
+ * can use it in its prompt. Dify cannot enforce the schema itself, so a `json` response
+ * format always returns a warning.
+ */
+export function getJsonSchemaInputs(
+  responseFormat: ResponseFormat,
+  variable: string | false,
+  warnings: LanguageModelV2CallWarning[]
+): Record<string, string> {
+  if (responseFormat?.type !== "json") {
+    return {};
+  }
+
+  const sendsSchema = responseFormat.schema != null && variable !== false;
+  const details = [
+    responseFormat.schema == null
+      ? "Dify does not support JSON output natively."
+      : sendsSchema
+        ? `Dify does not support JSON schemas natively. The schema is only passed in the "${variable}" input variable.`
+        : "The JSON schema is not sent to Dify because jsonSchemaVariable is false.",
+    "The JSON is extracted from the answer.",
+  ];
+  if (responseFormat.name != null || responseFormat.description != null) {
+    details.push("The name and description of the response format are not sent.");
+  }
+  warnings.push({
+    type: "unsupported-setting",
+    setting: "responseFormat",
+    details: details.join(" "),
+  });
+
+  return sendsSchema
+    ? { [variable as string]: JSON.stringify(responseFormat.schema) }
+    : {};
+}
+
+/**
+ * Extracts the JSON value of an answer: `<think>` blocks and Markdown code fences are
+ * removed, and text around a JSON object or array is dropped. Answers without valid
+ * JSON are returned unchanged, so that the AI SDK can report them.
+ */
+export function extractJson(answer: string): string {
+  const text = answer
+    .replace(/<think>[\s\S]*?(<\/think>|$)/g, "")
+    .trim();
+
+  const candidates = [text];
+  const fence = /```(?:json)?\s*\n?([\s\S]*?)```/i.exec(text);
+  if (fence) {
+    candidates.push(fence[1].trim());
+  }
+  for (const [open, close] of [["{", "}"], ["[", "]"]]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      candidates.push(text.slice(start, end + 1));
+    }
+  }
+
+  return candidates.find(isJson) ?? answer;
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Replaces the text parts of a response with a single text part holding the extracted JSON.
+ */
+export function extractJsonContent(
+  content: LanguageModelV2Content[]
+): LanguageModelV2Content[] {
+  const index = content.findIndex((part) => part.type === "text");
+  if (index === -1) {
+    return content;
+  }
+
+  const answer = content
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("");
+  const json: LanguageModelV2Content = { type: "text", text: extractJson(answer) };
+  return content.flatMap<LanguageModelV2Content>((part, partIndex) =>
+    partIndex === index ? [json] : part.type === "text" ? [] : [part]
+  );
+}
+
+/**
+ * Holds back the streamed text until the stream ends, then emits the extracted JSON
+ * as a single text block. Other parts pass through.
+ */
+export function createJsonStreamTransformer(): TransformStream<
+  LanguageModelV2StreamPart,
+  LanguageModelV2StreamPart
+> {
+  let answer: string | undefined;
+
+  const enqueueJson = (
+    controller: TransformStreamDefaultController<LanguageModelV2StreamPart>
+  ) => {
+    if (answer == null) {
+      return;
+    }
+    controller.enqueue({ type: "text-start", id: "json" });
+    controller.enqueue({ type: "text-delta", id: "json", delta: extractJson(answer) });
+    controller.enqueue({ type: "text-end", id: "json" });
+    answer = undefined;
+  };
+
+  return new TransformStream({
+    transform(part, controller) {
+      switch (part.type) {
+        case "text-start": {
+          // output moderation replaces the answer streamed so far
+          answer = part.providerMetadata?.dify?.replacement ? "" : (answer ?? "");
+          break;
+        }
+        case "text-end": {
+          break;
+        }
+        case "text-delta": {
+          answer = (answer ?? "") + part.delta;
+          break;
+        }
+        case "finish": {
+          enqueueJson(controller);
+          controller.enqueue(part);
+          break;
+        }
+        default: {
+          controller.enqueue(part);
+        }
+      }
+    },
+
+    flush(controller) {
+      enqueueJson(controller);
+    },
+  });
+}
+
+/**
+ * Applies a `json` response format to a stream of a language model.
+ */
+export function withJsonResponseFormat(
+  stream: ReadableStream<LanguageModelV2StreamPart>,
+  responseFormat: ResponseFormat
+): ReadableStream<LanguageModelV2StreamPart> {
+  return responseFormat?.type === "json"
+    ? stream.pipeThrough(createJsonStreamTransformer())
+    : stream;
+}
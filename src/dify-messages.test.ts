@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { APICallError } from "@ai-sdk/provider";
+import { createDifyProvider } from "./dify-provider";
+
+function createCapturingFetch(
+  responseBody: any,
+  { status = 200 }: { status?: number } = {}
+) {
+  const calls: { url: string; options: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, options });
+    return new Response(JSON.stringify(responseBody), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+  return { calls, fetch: fetch as any };
+}
+
+function makeProvider(fetch: any) {
+  return createDifyProvider({
+    baseURL: "https://mock.api/v1",
+    apiKey: "app-key",
+    fetch,
+  });
+}
+
+describe("provider.feedback", () => {
+  it("should post the rating of a message", async () => {
+    const { calls, fetch } = createCapturingFetch({ result: "success" });
+
+    await makeProvider(fetch).feedback({
+      messageId: "msg1",
+      rating: "dislike",
+      content: "Wrong city",
+      user: "user-1",
+    });
+
+    expect(calls[0].url).toBe("https://mock.api/v1/messages/msg1/feedbacks");
+    expect(calls[0].options.method).toBe("POST");
+    expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-key");
+    expect(JSON.parse(calls[0].options.body)).toEqual({
+      rating: "dislike",
+      content: "Wrong city",
+      user: "user-1",
+    });
+  });
+
+  it("should send a null rating to revoke the feedback", async () => {
+    const { calls, fetch } = createCapturingFetch({ result: "success" });
+
+    await makeProvider(fetch).feedback({
+      messageId: "msg1",
+      rating: null,
+      user: "user-1",
+    });
+
+    expect(JSON.parse(calls[0].options.body)).toEqual({
+      rating: null,
+      user: "user-1",
+    });
+  });
+
+  it("should map Dify errors to API call errors", async () => {
+    const { fetch } = createCapturingFetch(
+      { code: "not_found", message: "Message Not Exists.", status: 404 },
+      { status: 404 }
+    );
+
+    const error = await makeProvider(fetch)
+      .feedback({ messageId: "missing", rating: "like", user: "user-1" })
+      .catch((error) => error);
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error.statusCode).toBe(404);
+    expect(error.message).toBe("Dify API error: Message Not Exists.");
+  });
+});
+
+describe("provider.suggestedQuestions", () => {
+  it("should load the suggested questions of a message", async () => {
+    const { calls, fetch } = createCapturingFetch({
+      result: "success",
+      data: ["Will it rain?"],
+    });
+
+    const questions = await makeProvider(fetch).suggestedQuestions("msg1", "user-1");
+
+    expect(calls[0].url).toBe("https://mock.api/v1/messages/msg1/suggested?user=user-1");
+    expect(calls[0].options.method).toBe("GET");
+    expect(questions).toEqual(["Will it rain?"]);
+  });
+});
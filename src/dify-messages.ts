@@ -0,0 +1,88 @@
+import {
+  createJsonResponseHandler,
+  getFromApi,
+  postJsonToApi,
+  type FetchFunction,
+} from "@ai-sdk/provider-utils";
+import {
+  feedbackResponseSchema,
+  suggestedQuestionsResponseSchema,
+  type SuggestedQuestionsResponse,
+} from "./dify-chat-schema";
+import { createDifyEndpoints } from "./dify-endpoints";
+import { difyFailedResponseHandler } from "./dify-error";
+import type { DifyClientConfig } from "./dify-model-config";
+
+/**
+ * Rating of a message. `null` revokes an earlier rating.
+ */
+export type DifyFeedbackRating = "like" | "dislike" | null;
+
+export interface DifyFeedbackOptions {
+  // the `messageId` from the provider metadata of a response
+  messageId: string;
+  rating: DifyFeedbackRating;
+  // optional text explaining the rating
+  content?: string;
+  // the end user that rates the message
+  user: string;
+  // API key of the app, when it differs from the provider's default key
+  apiKey?: string;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Sends end user feedback for a message through `/messages/:message_id/feedbacks`.
+ */
+export async function sendDifyFeedback(
+  config: DifyClientConfig,
+  { messageId, rating, content, user, apiKey, abortSignal }: DifyFeedbackOptions
+): Promise<void> {
+  await postJsonToApi({
+    url: createDifyEndpoints(config.baseURL).messageFeedbacks(messageId),
+    headers: config.headers(apiKey),
+    body: { rating, content, user },
+    failedResponseHandler: difyFailedResponseHandler,
+    successfulResponseHandler: createJsonResponseHandler(
+      feedbackResponseSchema as any
+    ),
+    abortSignal,
+    fetch: config.fetch,
+  });
+}
+
+export interface DifySuggestedQuestionsOptions {
+  // API key of the app, when it differs from the provider's default key
+  apiKey?: string;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Loads the suggested follow-up questions of a message from `/messages/:message_id/suggested`.
+ */
+export async function getDifySuggestedQuestions({
+  url,
+  headers,
+  fetch,
+  user,
+  abortSignal,
+}: {
+  url: string;
+  headers: Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  user: string;
+  abortSignal?: AbortSignal;
+}): Promise<string[]> {
+  const { value } = await getFromApi({
+    url: `${url}?${new URLSearchParams({ user })}`,
+    headers,
+    failedResponseHandler: difyFailedResponseHandler,
+    successfulResponseHandler: createJsonResponseHandler(
+      suggestedQuestionsResponseSchema as any
+    ),
+    abortSignal,
+    fetch,
+  });
+
+  return (value as SuggestedQuestionsResponse).data;
+}
@@ -0,0 +1,39 @@
+import type { FetchFunction } from "@ai-sdk/provider-utils";
+import type { DifyConversationStore } from "./dify-conversation-store";
+import type { DifyAppParameters } from "./dify-app";
+
+export interface DifyModelConfig {
+  provider: string;
+  /**
+   * Dify API root, e.g. `https://api.dify.ai/v1`.
+   */
+  baseURL: string;
+  /**
+   * Request headers of the model. The headers of the call are passed so that their
+   * `Authorization` header can replace the API key.
+   */
+  headers: (callHeaders?: Record<string, string | undefined>) => Record<string, string>;
+  fetch?: FetchFunction;
+  /**
+   * Conversation ids of sessions, used by chat models.
+   */
+  conversationStore?: DifyConversationStore;
+  /**
+   * Loads the parameters of the model's app, cached by the provider. Used by the
+   * `validateInputs` setting; the parameters are loaded on each call without it.
+   */
+  getAppParameters?: (abortSignal?: AbortSignal) => Promise<DifyAppParameters>;
+}
+
+/**
+ * Configuration of the API clients on the provider, which are not bound to a model.
+ * Each Dify app has its own API key, so the key is chosen per call.
+ */
+export interface DifyClientConfig {
+  /**
+   * Dify API root, e.g. `https://api.dify.ai/v1`.
+   */
+  baseURL: string;
+  headers: (apiKey?: string) => Record<string, string>;
+  fetch?: FetchFunction;
+}
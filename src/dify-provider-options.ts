@@ -0,0 +1,228 @@
+import {
+  InvalidArgumentError,
+  type LanguageModelV2CallOptions,
+  type LanguageModelV2CallWarning,
+} from "@ai-sdk/provider";
+import { z } from "zod";
+
+const difyFileTypeSchema = z.enum(["image", "document", "audio", "video"]);
+
+export const difyProviderOptionsSchema = z.object({
+  /**
+   * Conversation to continue. Dify starts a new conversation when it is missing.
+   */
+  conversationId: z.string().optional(),
+
+  /**
+   * Key of your own session. With a `conversationStore` on the provider, the session
+   * continues its Dify conversation without passing `conversationId` (chat apps).
+   */
+  sessionKey: z.string().optional(),
+
+  /**
+   * Identifier of the end user, used by Dify to separate conversations and statistics.
+   */
+  user: z.string().optional(),
+
+  /**
+   * Message to answer, for branching conversations (chat apps).
+   */
+  parentMessageId: z.string().optional(),
+
+  /**
+   * Input variables of the app, merged with the `inputs` of the model settings.
+   */
+  inputs: z.record(z.any()).optional(),
+
+  /**
+   * Files in Dify's format, sent in addition to the file parts of the prompt.
+   */
+  files: z
+    .array(
+      z.discriminatedUnion("transfer_method", [
+        z.object({
+          type: difyFileTypeSchema,
+          transfer_method: z.literal("remote_url"),
+          url: z.string(),
+        }),
+        z.object({
+          type: difyFileTypeSchema,
+          transfer_method: z.literal("local_file"),
+          upload_file_id: z.string(),
+        }),
+      ])
+    )
+    .optional(),
+
+  /**
+   * Let Dify generate a name for a new conversation (chat apps). Defaults to true.
+   */
+  autoGenerateName: z.boolean().optional(),
+});
+
+/**
+ * Options of a single call, passed as `providerOptions.dify`.
+ */
+export type DifyProviderOptions = z.infer<typeof difyProviderOptionsSchema>;
+
+// options that used to be passed as request headers
+const deprecatedHeaders = {
+  "chat-id": "conversationId",
+  "user-id": "user",
+  "parent-message-id": "parentMessageId",
+} as const;
+
+type DeprecatedHeader = keyof typeof deprecatedHeaders;
+
+/**
+ * Options of a single speech call, passed as `providerOptions.dify`.
+ */
+export const difySpeechProviderOptionsSchema = z.object({
+  /**
+   * Identifier of the end user.
+   */
+  user: z.string().optional(),
+
+  /**
+   * Message whose stored text Dify reads instead of the `text` of the call.
+   */
+  messageId: z.string().optional(),
+});
+
+export type DifySpeechProviderOptions = z.infer<
+  typeof difySpeechProviderOptionsSchema
+>;
+
+/**
+ * Options of a single transcription call, passed as `providerOptions.dify`.
+ */
+export const difyTranscriptionProviderOptionsSchema = z.object({
+  /**
+   * Identifier of the end user.
+   */
+  user: z.string().optional(),
+});
+
+export type DifyTranscriptionProviderOptions = z.infer<
+  typeof difyTranscriptionProviderOptionsSchema
+>;
+
+type DeprecatedHeaderWarning = { type: "other"; message: string };
+
+function parseDifyProviderOptions<T>(schema: z.ZodType<T>, dify: unknown): T {
+  const result = schema.safeParse(dify);
+  if (!result.success) {
+    throw new InvalidArgumentError({
+      argument: "providerOptions.dify",
+      message:
+        "Invalid Dify provider options: " +
+        result.error.issues
+          .map((issue) => `${issue.path.join(".") || "dify"}: ${issue.message}`)
+          .join("; "),
+      cause: result.error,
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Removes the deprecated headers, and uses their values for the options that are not set.
+ * Header names are case-insensitive.
+ */
+function resolveDeprecatedHeaders<T extends Partial<Record<string, unknown>>>(
+  requestHeaders: Record<string, string | undefined> | undefined,
+  providerOptions: T,
+  supportedHeaders: DeprecatedHeader[]
+): {
+  headers: Record<string, string | undefined>;
+  warnings: DeprecatedHeaderWarning[];
+} {
+  const warnings: DeprecatedHeaderWarning[] = [];
+  const headers: Record<string, string | undefined> = {};
+
+  for (const [name, value] of Object.entries(requestHeaders ?? {})) {
+    const header = name.toLowerCase() as DeprecatedHeader;
+    if (!supportedHeaders.includes(header)) {
+      headers[name] = value;
+      continue;
+    }
+    const option = deprecatedHeaders[header] as keyof T;
+    if (value != null && providerOptions[option] == null) {
+      providerOptions[option] = value as T[keyof T];
+    }
+    warnings.push({
+      type: "other",
+      message: `The "${name}" header is deprecated. Use providerOptions.dify.${String(option)} instead.`,
+    });
+  }
+
+  return { headers, warnings };
+}
+
+/**
+ * Reads the Dify options of a call from `providerOptions.dify`.
+ *
+ * The deprecated `chat-id`, `user-id` and `parent-message-id` headers still work when
+ * the option is not set; they are removed from the returned headers so that they are
+ * not sent to Dify. Other keys of `providerOptions.dify` are still forwarded as inputs,
+ * as they were before `inputs` existed. Both produce a warning.
+ */
+export function resolveDifyProviderOptions(options: LanguageModelV2CallOptions): {
+  providerOptions: DifyProviderOptions;
+  headers: Record<string, string | undefined>;
+  warnings: LanguageModelV2CallWarning[];
+} {
+  const { dify = {} } = options.providerOptions ?? {};
+  const knownKeys = Object.keys(difyProviderOptionsSchema.shape);
+  const legacyInputs = Object.fromEntries(
+    Object.entries(dify).filter(([key]) => !knownKeys.includes(key))
+  );
+
+  const providerOptions: DifyProviderOptions = {
+    ...parseDifyProviderOptions(difyProviderOptionsSchema, dify),
+  };
+  const { headers, warnings } = resolveDeprecatedHeaders(
+    options.headers,
+    providerOptions,
+    ["chat-id", "user-id", "parent-message-id"]
+  );
+
+  if (Object.keys(legacyInputs).length > 0) {
+    providerOptions.inputs = { ...legacyInputs, ...providerOptions.inputs };
+    warnings.push({
+      type: "other",
+      message:
+        `Unknown providerOptions.dify keys are sent as inputs: ${Object.keys(legacyInputs).join(", ")}. ` +
+        "Pass input variables in providerOptions.dify.inputs instead.",
+    });
+  }
+
+  return { providerOptions, headers, warnings };
+}
+
+/**
+ * Reads the Dify options of a speech or transcription call from `providerOptions.dify`.
+ * The deprecated `user-id` header still works when `user` is not set, with a warning.
+ */
+export function resolveDifyAudioProviderOptions<T extends { user?: string }>(
+  schema: z.ZodType<T>,
+  options: {
+    headers?: Record<string, string | undefined>;
+    providerOptions?: Record<string, Record<string, unknown>>;
+  }
+): {
+  providerOptions: T;
+  headers: Record<string, string | undefined>;
+  warnings: DeprecatedHeaderWarning[];
+} {
+  const providerOptions: T = {
+    ...parseDifyProviderOptions(schema, options.providerOptions?.dify ?? {}),
+  };
+  const { headers, warnings } = resolveDeprecatedHeaders(
+    options.headers,
+    providerOptions,
+    ["user-id"]
+  );
+
+  return { providerOptions, headers, warnings };
+}
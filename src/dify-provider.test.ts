@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import { createDifyProvider } from "./dify-provider";
+
+const blockingResponse = {
+  id: "id1",
+  answer: "Hello world",
+  task_id: "task1",
+  conversation_id: "conv1",
+  message_id: "msg1",
+  metadata: {
+    usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 },
+  },
+};
+
+function createCapturingFetch(responseBody: any = blockingResponse) {
+  const calls: { url: string; options: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, options });
+    return {
+      ok: true,
+      headers: new Map([["Content-Type", "application/json"]]),
+      text: async () => JSON.stringify(responseBody),
+      status: 200,
+    };
+  };
+  return { calls, fetch: fetch as any };
+}
+
+const prompt = [
+  { role: "user", content: [{ type: "text", text: "Hi" }] },
+] as any;
+
+describe("createDifyProvider", () => {
+  let originalApiKey: string | undefined;
+
+  beforeEach(() => {
+    originalApiKey = process.env.DIFY_API_KEY;
+    delete process.env.DIFY_API_KEY;
+  });
+
+  afterEach(() => {
+    if (originalApiKey === undefined) {
+      delete process.env.DIFY_API_KEY;
+    } else {
+      process.env.DIFY_API_KEY = originalApiKey;
+    }
+  });
+
+  describe("authentication", () => {
+    it("should send the model's apiKey as bearer token", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({ apiKey: "app-default", fetch });
+
+      await provider("app1", { apiKey: "app-model" }).doGenerate({ prompt });
+
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-model");
+    });
+
+    it("should fall back to the provider apiKey", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({ apiKey: "app-default", fetch });
+
+      await provider.chat("app1").doGenerate({ prompt });
+
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-default");
+    });
+
+    it("should fall back to the DIFY_API_KEY environment variable", async () => {
+      process.env.DIFY_API_KEY = "app-env";
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({ fetch });
+
+      await provider("app1").doGenerate({ prompt });
+
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-env");
+    });
+
+    it("should throw LoadAPIKeyError before sending the request when no key is configured", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({ fetch });
+
+      await expect(provider("app1").doGenerate({ prompt })).rejects.toMatchObject({
+        name: "AI_LoadAPIKeyError",
+      });
+      expect(calls).toHaveLength(0);
+    });
+
+    it("should keep an Authorization header passed in the provider headers", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({
+        headers: { Authorization: "Bearer app-header" },
+        fetch,
+      });
+
+      await provider("app1").doGenerate({ prompt });
+
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-header");
+    });
+
+    it("should use the Authorization header of a call without loading a key", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({ fetch });
+
+      await provider("app1").doGenerate({
+        prompt,
+        headers: { Authorization: "Bearer app-call" },
+      });
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-call");
+    });
+
+    it("should prefer the Authorization header of a call over a configured key", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({ apiKey: "app-default", fetch });
+
+      await provider("app1", { apiKey: "app-model" }).doGenerate({
+        prompt,
+        headers: { authorization: "Bearer app-call" },
+      });
+
+      expect(calls[0].options.headers).not.toHaveProperty("Authorization");
+      expect(calls[0].options.headers["authorization"]).toBe("Bearer app-call");
+    });
+
+    it("should prefer the model's apiKey over an Authorization header", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({
+        headers: { authorization: "Bearer app-header", "X-Custom": "1" },
+        fetch,
+      });
+
+      await provider("app2", { apiKey: "app-2-key" }).doGenerate({ prompt });
+      await provider("app1").doGenerate({ prompt });
+
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-2-key");
+      expect(calls[0].options.headers["authorization"]).toBeUndefined();
+      expect(calls[0].options.headers["X-Custom"]).toBe("1");
+      expect(calls[1].options.headers["authorization"]).toBe("Bearer app-header");
+    });
+  });
+
+  describe("baseURL", () => {
+    it("should post chat messages to the default API root", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({ apiKey: "app-key", fetch });
+
+      await provider("app1").doGenerate({ prompt });
+
+      expect(calls[0].url).toBe("https://api.dify.ai/v1/chat-messages");
+    });
+
+    it("should derive endpoints from a self-hosted API root", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({
+        baseURL: "https://dify.example.com/v1/",
+        apiKey: "app-key",
+        fetch,
+      });
+
+      await provider("app1").doGenerate({ prompt });
+
+      expect(calls[0].url).toBe("https://dify.example.com/v1/chat-messages");
+    });
+
+    it("should keep accepting a full /chat-messages URL", async () => {
+      const { calls, fetch } = createCapturingFetch();
+      const provider = createDifyProvider({
+        baseURL: "https://dify.example.com/v1/chat-messages",
+        apiKey: "app-key",
+        fetch,
+      });
+
+      await provider("app1").doGenerate({ prompt });
+
+      expect(calls[0].url).toBe("https://dify.example.com/v1/chat-messages");
+    });
+  });
+
+  describe("stop", () => {
+    it("should stop a chat task for the user", async () => {
+      const { calls, fetch } = createCapturingFetch({ result: "success" });
+      const provider = createDifyProvider({ apiKey: "app-key", fetch });
+
+      await provider.stop("task1", "user-1");
+
+      expect(calls[0].url).toBe("https://api.dify.ai/v1/chat-messages/task1/stop");
+      expect(calls[0].options.method).toBe("POST");
+      expect(JSON.parse(calls[0].options.body)).toEqual({ user: "user-1" });
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-key");
+    });
+
+    it("should use the workflow endpoint and the given apiKey", async () => {
+      const { calls, fetch } = createCapturingFetch({ result: "success" });
+      const provider = createDifyProvider({ apiKey: "app-key", fetch });
+
+      await provider.stop("task1", "user-1", {
+        appType: "workflow",
+        apiKey: "app-workflow",
+      });
+
+      expect(calls[0].url).toBe("https://api.dify.ai/v1/workflows/tasks/task1/stop");
+      expect(calls[0].options.headers["Authorization"]).toBe("Bearer app-workflow");
+    });
+  });
+});
@@ -1,6 +1,42 @@
 import { FetchFunction, generateId, loadApiKey } from "@ai-sdk/provider-utils";
 import { DifyChatSettings, DifyChatModelId } from "./dify-chat-settings";
 import { DifyChatLanguageModel } from "./dify-chat-language-model";
+import {
+  DifyWorkflowSettings,
+  DifyWorkflowModelId,
+} from "./dify-workflow-settings";
+import { DifyWorkflowLanguageModel } from "./dify-workflow-language-model";
+import {
+  DifyCompletionSettings,
+  DifyCompletionModelId,
+} from "./dify-completion-settings";
+import { DifyCompletionLanguageModel } from "./dify-completion-language-model";
+import { DifySpeechSettings, DifySpeechModelId } from "./dify-speech-settings";
+import { DifySpeechModel } from "./dify-speech-model";
+import {
+  DifyTranscriptionSettings,
+  DifyTranscriptionModelId,
+} from "./dify-transcription-settings";
+import { DifyTranscriptionModel } from "./dify-transcription-model";
+import { createDifyEndpoints, getDifyApiRoot } from "./dify-endpoints";
+import { stopDifyTask, type DifyStopOptions } from "./dify-task";
+import {
+  createDifyConversations,
+  type DifyConversations,
+} from "./dify-conversations";
+import {
+  getDifySuggestedQuestions,
+  sendDifyFeedback,
+  type DifyFeedbackOptions,
+  type DifySuggestedQuestionsOptions,
+} from "./dify-messages";
+import {
+  createDifyAppParametersCache,
+  type DifyAppParameters,
+  type DifyAppParametersOptions,
+} from "./dify-app";
+import type { DifyClientConfig } from "./dify-model-config";
+import type { DifyConversationStore } from "./dify-conversation-store";
 
 // model factory function with additional methods and properties
 export interface DifyProvider {
@@ -14,15 +50,69 @@ export interface DifyProvider {
     modelId: DifyChatModelId,
     settings?: DifyChatSettings
   ): DifyChatLanguageModel;
+
+  // model for workflow apps, targeting the /workflows/run API
+  workflow(
+    modelId: DifyWorkflowModelId,
+    settings?: DifyWorkflowSettings
+  ): DifyWorkflowLanguageModel;
+
+  // model for text generator apps, targeting the /completion-messages API
+  completion(
+    modelId: DifyCompletionModelId,
+    settings?: DifyCompletionSettings
+  ): DifyCompletionLanguageModel;
+
+  // speech model for the text-to-speech of an app, targeting the /text-to-audio API
+  speech(
+    modelId: DifySpeechModelId,
+    settings?: DifySpeechSettings
+  ): DifySpeechModel;
+
+  // transcription model for the speech-to-text of an app, targeting the /audio-to-text API
+  transcription(
+    modelId: DifyTranscriptionModelId,
+    settings?: DifyTranscriptionSettings
+  ): DifyTranscriptionModel;
+
+  // stops a running task, e.g. the `taskId` from the provider metadata of a response
+  stop(taskId: string, user: string, options?: DifyStopOptions): Promise<void>;
+
+  // client for listing, renaming and deleting conversations and reading their messages
+  conversations: DifyConversations;
+
+  // rates a message with like or dislike, `null` revokes the rating
+  feedback(options: DifyFeedbackOptions): Promise<void>;
+
+  // loads the suggested follow-up questions of a message
+  suggestedQuestions(
+    messageId: string,
+    user: string,
+    options?: DifySuggestedQuestionsOptions
+  ): Promise<string[]>;
+
+  // loads the input variables and mode of an app from /parameters and /info, cached per app and API key
+  getAppParameters(
+    appId: string,
+    options?: DifyAppParametersOptions
+  ): Promise<DifyAppParameters>;
 }
 
 // optional settings for the provider
 export interface DifyProviderSettings {
   /**
    * Use a different URL prefix for API calls, e.g. to use self-hosted Dify instance.
+   * This is the API root (e.g. `https://your-dify-instance.com/v1`); the endpoint paths are
+   * appended to it. A full `/chat-messages` URL is still accepted for compatibility.
    */
   baseURL?: string;
 
+  /**
+   * Default API key, used for models that don't set their own `apiKey`.
+   * Falls back to the `DIFY_API_KEY` environment variable.
+   */
+  apiKey?: string;
+
   /**
    * Custom headers to include in the requests.
    */
@@ -32,29 +122,148 @@ export interface DifyProviderSettings {
    * or to provide a custom fetch implementation for e.g. testing.
    */
   fetch?: FetchFunction;
+
+  /**
+   * Store that maps session keys (`providerOptions.dify.sessionKey`) to Dify conversation
+   * ids. Chat models read the conversation of a session from it and save it when the
+   * answer is complete, and start a new conversation when Dify no longer knows the
+   * stored one.
+   */
+  conversationStore?: DifyConversationStore;
 }
 
 export function createDifyProvider(
   options: DifyProviderSettings = {}
 ): DifyProvider {
+  const getHeaders = (
+    apiKey?: string,
+    callHeaders?: Record<string, string | undefined>
+  ): Record<string, string> => {
+    const configuredApiKey = apiKey ?? options.apiKey;
+    const isAuthorization = (name: string) =>
+      name.toLowerCase() === "authorization";
+    const hasAuthorizationHeader = (headers?: Record<string, unknown>) =>
+      Object.entries(headers ?? {}).some(
+        ([name, value]) => isAuthorization(name) && value != null
+      );
+    const providerHeaders = Object.fromEntries(
+      Object.entries(options.headers ?? {}).filter(
+        ([name]) => !isAuthorization(name)
+      )
+    );
+
+    // the Authorization header of a call is sent as it is
+    if (hasAuthorizationHeader(callHeaders)) {
+      return { "Content-Type": "application/json", ...providerHeaders };
+    }
+
+    // keep supporting an Authorization header passed in by hand, unless a key is configured
+    if (configuredApiKey == null && hasAuthorizationHeader(options.headers)) {
+      return { "Content-Type": "application/json", ...options.headers };
+    }
+
+    return {
+      "Content-Type": "application/json",
+      ...providerHeaders,
+      Authorization: `Bearer ${loadApiKey({
+        apiKey: configuredApiKey,
+        environmentVariableName: "DIFY_API_KEY",
+        description: "Dify",
+      })}`,
+    };
+  };
+
+  const clientConfig: DifyClientConfig = {
+    baseURL: getDifyApiRoot(options.baseURL),
+    headers: getHeaders,
+    fetch: options.fetch,
+  };
+
+  const getAppParameters = createDifyAppParametersCache(clientConfig);
+
   const createChatModel = (
     modelId: DifyChatModelId,
     settings: DifyChatSettings = {}
   ) =>
     new DifyChatLanguageModel(modelId, settings, {
       provider: "dify.chat",
-      baseURL: options.baseURL || "https://api.dify.ai/v1",
-      headers: () => ({
-        // Authorization: `Bearer ${loadApiKey({
-        //   apiKey: settings.apiKey,
-        //   environmentVariableName: "DIFY_API_KEY",
-        //   description: "Dify API Key",
-        // })}`,
-        "Content-Type": "application/json",
-        ...options.headers,
-      }),
+      baseURL: getDifyApiRoot(options.baseURL),
+      headers: (callHeaders) => getHeaders(settings.apiKey, callHeaders),
+      fetch: options.fetch,
+      conversationStore: options.conversationStore,
+      getAppParameters: (abortSignal) =>
+        getAppParameters(modelId, { apiKey: settings.apiKey, abortSignal }),
+    });
+
+  const createWorkflowModel = (
+    modelId: DifyWorkflowModelId,
+    settings: DifyWorkflowSettings = {}
+  ) =>
+    new DifyWorkflowLanguageModel(modelId, settings, {
+      provider: "dify.workflow",
+      baseURL: getDifyApiRoot(options.baseURL),
+      headers: (callHeaders) => getHeaders(settings.apiKey, callHeaders),
+      fetch: options.fetch,
+      getAppParameters: (abortSignal) =>
+        getAppParameters(modelId, { apiKey: settings.apiKey, abortSignal }),
+    });
+
+  const createCompletionModel = (
+    modelId: DifyCompletionModelId,
+    settings: DifyCompletionSettings = {}
+  ) =>
+    new DifyCompletionLanguageModel(modelId, settings, {
+      provider: "dify.completion",
+      baseURL: getDifyApiRoot(options.baseURL),
+      headers: (callHeaders) => getHeaders(settings.apiKey, callHeaders),
+      fetch: options.fetch,
+      getAppParameters: (abortSignal) =>
+        getAppParameters(modelId, { apiKey: settings.apiKey, abortSignal }),
+    });
+
+  const createSpeechModel = (
+    modelId: DifySpeechModelId,
+    settings: DifySpeechSettings = {}
+  ) =>
+    new DifySpeechModel(modelId, settings, {
+      provider: "dify.speech",
+      baseURL: getDifyApiRoot(options.baseURL),
+      headers: (callHeaders) => getHeaders(settings.apiKey, callHeaders),
+      fetch: options.fetch,
+    });
+
+  const createTranscriptionModel = (
+    modelId: DifyTranscriptionModelId,
+    settings: DifyTranscriptionSettings = {}
+  ) =>
+    new DifyTranscriptionModel(modelId, settings, {
+      provider: "dify.transcription",
+      baseURL: getDifyApiRoot(options.baseURL),
+      headers: (callHeaders) => getHeaders(settings.apiKey, callHeaders),
+      fetch: options.fetch,
     });
 
+  const stop = (
+    taskId: string,
+    user: string,
+    { appType = "chat", apiKey }: DifyStopOptions = {}
+  ) => {
+    const endpoints = createDifyEndpoints(options.baseURL);
+    const url =
+      appType === "workflow"
+        ? endpoints.workflowTaskStop(taskId)
+        : appType === "completion"
+          ? endpoints.completionMessageStop(taskId)
+          : endpoints.chatMessageStop(taskId);
+
+    return stopDifyTask({
+      url,
+      headers: getHeaders(apiKey),
+      fetch: options.fetch,
+      user,
+    });
+  };
+
   const provider = function (
     modelId: DifyChatModelId,
     settings?: DifyChatSettings
@@ -69,6 +278,27 @@ export function createDifyProvider(
   };
 
   provider.chat = createChatModel;
+  provider.workflow = createWorkflowModel;
+  provider.completion = createCompletionModel;
+  provider.speech = createSpeechModel;
+  provider.transcription = createTranscriptionModel;
+  provider.stop = stop;
+  provider.conversations = createDifyConversations(clientConfig);
+  provider.feedback = (feedbackOptions: DifyFeedbackOptions) =>
+    sendDifyFeedback(clientConfig, feedbackOptions);
+  provider.suggestedQuestions = (
+    messageId: string,
+    user: string,
+    { apiKey, abortSignal }: DifySuggestedQuestionsOptions = {}
+  ) =>
+    getDifySuggestedQuestions({
+      url: createDifyEndpoints(clientConfig.baseURL).messageSuggested(messageId),
+      headers: getHeaders(apiKey),
+      fetch: options.fetch,
+      user,
+      abortSignal,
+    });
+  provider.getAppParameters = getAppParameters;
 
   return provider;
 }
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import {
+  DifyReasoningExtractor,
+  extractReasoningContent,
+  type DifyReasoningFormat,
+  type ReasoningExtractorPart,
+} from "./dify-reasoning";
+
+describe("extractReasoningContent", () => {
+  it("should extract <think> blocks with newlines", () => {
+    expect(extractReasoningContent("<think>\nLet me see\n</think>\nIt is 4")).toEqual([
+      { type: "reasoning", text: "Let me see" },
+      { type: "text", text: "\nIt is 4" },
+    ]);
+  });
+
+  it("should extract <think> blocks without newlines", () => {
+    expect(extractReasoningContent("<think>Let me see</think>It is 4")).toEqual([
+      { type: "reasoning", text: "Let me see" },
+      { type: "text", text: "It is 4" },
+    ]);
+  });
+
+  it("should extract Dify's <details> thinking blocks", () => {
+    const answer =
+      '<details style="color:gray;background-color: #f8f8f8;padding: 8px;border-radius: 4px;" open> <summary> Thinking... </summary>\n' +
+      "Let me see\n</details>It is 4";
+
+    expect(extractReasoningContent(answer, "details")).toEqual([
+      { type: "reasoning", text: "Let me see" },
+      { type: "text", text: "It is 4" },
+    ]);
+  });
+
+  it("should extract a custom pair of tags", () => {
+    expect(
+      extractReasoningContent("[[Let me see]]It is 4", { open: "[[", close: "]]" })
+    ).toEqual([
+      { type: "reasoning", text: "Let me see" },
+      { type: "text", text: "It is 4" },
+    ]);
+  });
+
+  it("should keep the answer as text when extraction is off", () => {
+    expect(extractReasoningContent("<think>Let me see</think>It is 4", false)).toEqual([
+      { type: "text", text: "<think>Let me see</think>It is 4" },
+    ]);
+  });
+
+  it("should treat an unclosed block as reasoning until the end", () => {
+    expect(extractReasoningContent("<think>Still thinking")).toEqual([
+      { type: "reasoning", text: "Still thinking" },
+    ]);
+  });
+
+  it("should return no content for an empty answer", () => {
+    expect(extractReasoningContent("")).toEqual([]);
+  });
+});
+
+describe("DifyReasoningExtractor", () => {
+  it("should keep its state between chunks", () => {
+    const extractor = new DifyReasoningExtractor();
+
+    expect(extractor.process("<think>\nLet me")).toEqual([
+      { type: "reasoning-start", id: "reasoning-1" },
+      { type: "reasoning-delta", id: "reasoning-1", text: "Let me" },
+    ]);
+    expect(extractor.isInReasoning).toBe(true);
+    expect(extractor.process(" see\n</think>It is 4")).toEqual([
+      { type: "reasoning-delta", id: "reasoning-1", text: " see" },
+      { type: "reasoning-end", id: "reasoning-1" },
+      { type: "text", text: "It is 4" },
+    ]);
+    expect(extractor.flush()).toEqual([]);
+  });
+
+  it("should end an open block on flush", () => {
+    const extractor = new DifyReasoningExtractor();
+    extractor.process("<think>Let me see");
+
+    expect(extractor.flush()).toEqual([{ type: "reasoning-end", id: "reasoning-1" }]);
+    expect(extractor.isInReasoning).toBe(false);
+  });
+
+  it("should detect tags split across chunks", () => {
+    const extractor = new DifyReasoningExtractor();
+
+    expect(extractor.process("Hi <thi")).toEqual([{ type: "text", text: "Hi " }]);
+    expect(extractor.process("nk>\nhm\n</th")).toEqual([
+      { type: "reasoning-start", id: "reasoning-1" },
+      { type: "reasoning-delta", id: "reasoning-1", text: "hm" },
+    ]);
+    expect(extractor.process("ink>done")).toEqual([
+      { type: "reasoning-end", id: "reasoning-1" },
+      { type: "text", text: "done" },
+    ]);
+  });
+
+  it("should hold back only a possible partial tag", () => {
+    const extractor = new DifyReasoningExtractor();
+
+    expect(extractor.process("a < b <")).toEqual([{ type: "text", text: "a < b " }]);
+    expect(extractor.process("= c")).toEqual([{ type: "text", text: "<= c" }]);
+  });
+
+  it("should emit held back text on flush", () => {
+    const extractor = new DifyReasoningExtractor();
+
+    expect(extractor.process("The tag is <think")).toEqual([
+      { type: "text", text: "The tag is " },
+    ]);
+    expect(extractor.flush()).toEqual([{ type: "text", text: "<think" }]);
+  });
+
+  it("should give every block its own id", () => {
+    const extractor = new DifyReasoningExtractor();
+
+    const parts = [
+      ...extractor.process("<think>a</think>x<think>b</think>y"),
+      ...extractor.flush(),
+    ];
+
+    expect(parts).toEqual([
+      { type: "reasoning-start", id: "reasoning-1" },
+      { type: "reasoning-delta", id: "reasoning-1", text: "a" },
+      { type: "reasoning-end", id: "reasoning-1" },
+      { type: "text", text: "x" },
+      { type: "reasoning-start", id: "reasoning-2" },
+      { type: "reasoning-delta", id: "reasoning-2", text: "b" },
+      { type: "reasoning-end", id: "reasoning-2" },
+      { type: "text", text: "y" },
+    ]);
+  });
+
+  describe("split at every offset", () => {
+    const fixtures: { format: DifyReasoningFormat; answer: string }[] = [
+      { format: "think", answer: "<think>\nStep 1\nStep 2\n</think>\n\nThe answer is 4." },
+      { format: "think", answer: "Intro <think>a < b</think> middle <think>\nc\n</think> end <" },
+      { format: "think", answer: "<think>unclosed \n</thi" },
+      {
+        format: "details",
+        answer:
+          '<details style="color:gray" open> <summary> Thinking... </summary>\nHmm\n</details>Done',
+      },
+      { format: { open: "[[", close: "]]" }, answer: "x [[y]] [z] [[w]]" },
+    ];
+
+    // the observable result: text and the text of every reasoning block, by id
+    function collect(parts: ReasoningExtractorPart[]) {
+      let text = "";
+      const reasoning = new Map<string, string>();
+      const open = new Set<string>();
+      for (const part of parts) {
+        switch (part.type) {
+          case "text":
+            expect(open.size).toBe(0);
+            text += part.text;
+            break;
+          case "reasoning-start":
+            expect(reasoning.has(part.id)).toBe(false);
+            reasoning.set(part.id, "");
+            open.add(part.id);
+            break;
+          case "reasoning-delta":
+            expect(open.has(part.id)).toBe(true);
+            reasoning.set(part.id, reasoning.get(part.id) + part.text);
+            break;
+          case "reasoning-end":
+            expect(open.delete(part.id)).toBe(true);
+            break;
+        }
+      }
+      expect(open.size).toBe(0);
+      return { text, reasoning: [...reasoning.entries()] };
+    }
+
+    function run(format: DifyReasoningFormat, chunks: string[]) {
+      const extractor = new DifyReasoningExtractor(format);
+      return collect([
+        ...chunks.flatMap((chunk) => extractor.process(chunk)),
+        ...extractor.flush(),
+      ]);
+    }
+
+    for (const { format, answer } of fixtures) {
+      const expected = run(format, [answer]);
+
+      it(`should give the same result for any split of ${JSON.stringify(answer)}`, () => {
+        for (let i = 0; i <= answer.length; i++) {
+          expect(run(format, [answer.slice(0, i), answer.slice(i)])).toEqual(expected);
+          for (let j = i; j <= answer.length; j++) {
+            expect(
+              run(format, [answer.slice(0, i), answer.slice(i, j), answer.slice(j)])
+            ).toEqual(expected);
+          }
+        }
+        expect(run(format, [...answer])).toEqual(expected);
+      });
+    }
+  });
+});
@@ -0,0 +1,237 @@
+import type { LanguageModelV2Content } from "@ai-sdk/provider";
+
+/**
+ * How reasoning is marked up in the answer of a Dify app:
+ * - `think`: `<think>...</think>` blocks, with or without newlines around the content
+ * - `details`: Dify's `<details ...><summary> Thinking... </summary>...</details>` blocks
+ * - `{ open, close }`: a custom pair of tags
+ * - `false`: no extraction, reasoning stays in the text
+ */
+export type DifyReasoningFormat =
+  | "think"
+  | "details"
+  | { open: string; close: string }
+  | false;
+
+interface ReasoningTags {
+  // literals that start a block, the longest match wins
+  open: string[];
+  // when set, the opening tag continues until one of these literals (attributes, summary)
+  openEnd?: string[];
+  // literals that end a block, the longest match wins
+  close: string[];
+}
+
+function getReasoningTags(format: DifyReasoningFormat): ReasoningTags | undefined {
+  if (format === false) {
+    return undefined;
+  }
+  if (format === "think") {
+    return { open: ["<think>\n", "<think>"], close: ["\n</think>", "</think>"] };
+  }
+  if (format === "details") {
+    return {
+      open: ["<details"],
+      openEnd: ["</summary>\n", "</summary>"],
+      close: ["\n</details>", "</details>"],
+    };
+  }
+  return { open: [format.open], close: [format.close] };
+}
+
+type TagMatch =
+  | { type: "complete"; index: number; length: number }
+  | { type: "partial"; index: number };
+
+/**
+ * Finds the earliest tag in the buffer. A `partial` match is a suffix of the buffer
+ * that could still become a tag (or a longer one) when the next chunk arrives; at the
+ * end of the answer (`isFinal`) there is no next chunk, so only complete tags count.
+ */
+function findTag(
+  buffer: string,
+  literals: string[],
+  isFinal: boolean
+): TagMatch | undefined {
+  let complete: { index: number; length: number } | undefined;
+  for (const literal of literals) {
+    const index = buffer.indexOf(literal);
+    if (
+      index !== -1 &&
+      (complete == null ||
+        index < complete.index ||
+        (index === complete.index && literal.length > complete.length))
+    ) {
+      complete = { index, length: literal.length };
+    }
+  }
+
+  const searchStart = Math.max(0, buffer.length - maxLength(literals) + 1);
+  const searchEnd = isFinal ? -1 : (complete?.index ?? buffer.length - 1);
+  for (let index = searchStart; index <= searchEnd; index++) {
+    const suffix = buffer.slice(index);
+    if (
+      literals.some(
+        (literal) => literal.length > suffix.length && literal.startsWith(suffix)
+      )
+    ) {
+      return { type: "partial", index };
+    }
+  }
+
+  return complete ? { type: "complete", ...complete } : undefined;
+}
+
+function maxLength(literals: string[]): number {
+  return Math.max(0, ...literals.map((literal) => literal.length));
+}
+
+export type ReasoningExtractorPart =
+  | { type: "text"; text: string }
+  | { type: "reasoning-start"; id: string }
+  | { type: "reasoning-delta"; id: string; text: string }
+  | { type: "reasoning-end"; id: string };
+
+/**
+ * Splits answer text into text and reasoning parts, following the configured tags.
+ * Streamed answers are processed chunk by chunk: tags may be split across chunks,
+ * so a suffix that could be the start of a tag is held back until the next chunk
+ * (or `flush`) decides it. Every reasoning block gets its own id.
+ */
+export class DifyReasoningExtractor {
+  private readonly tags: ReasoningTags | undefined;
+  private state: "text" | "open-tag" | "reasoning" = "text";
+  private pending = "";
+  private blockCount = 0;
+
+  constructor(format: DifyReasoningFormat = "think") {
+    this.tags = getReasoningTags(format);
+  }
+
+  get isInReasoning(): boolean {
+    return this.state !== "text";
+  }
+
+  private get reasoningId(): string {
+    return `reasoning-${this.blockCount}`;
+  }
+
+  process(chunk: string): ReasoningExtractorPart[] {
+    if (!this.tags) {
+      return chunk ? [{ type: "text", text: chunk }] : [];
+    }
+
+    const buffer = this.pending + chunk;
+    this.pending = "";
+    return this.consume(buffer, this.tags, false);
+  }
+
+  /**
+   * Emits the held back text and ends an unclosed reasoning block, e.g. when the
+   * answer has ended.
+   */
+  flush(): ReasoningExtractorPart[] {
+    const buffer = this.pending;
+    this.pending = "";
+    const parts = this.tags ? this.consume(buffer, this.tags, true) : [];
+
+    if (this.state !== "text") {
+      parts.push({ type: "reasoning-end", id: this.reasoningId });
+      this.state = "text";
+    }
+    return parts;
+  }
+
+  private consume(
+    input: string,
+    tags: ReasoningTags,
+    isFinal: boolean
+  ): ReasoningExtractorPart[] {
+    const parts: ReasoningExtractorPart[] = [];
+    let buffer = input;
+
+    while (buffer) {
+      if (this.state === "open-tag") {
+        // the content of the opening tag (attributes, summary) is dropped
+        const openEnd = findTag(buffer, tags.openEnd ?? [], isFinal);
+        if (openEnd?.type !== "complete") {
+          this.pending = openEnd ? buffer.slice(openEnd.index) : "";
+          break;
+        }
+        this.state = "reasoning";
+        buffer = buffer.slice(openEnd.index + openEnd.length);
+        continue;
+      }
+
+      const isText = this.state === "text";
+      const tag = findTag(buffer, isText ? tags.open : tags.close, isFinal);
+      const contentEnd = tag?.index ?? buffer.length;
+
+      if (contentEnd > 0) {
+        const content = buffer.slice(0, contentEnd);
+        parts.push(
+          isText
+            ? { type: "text", text: content }
+            : { type: "reasoning-delta", id: this.reasoningId, text: content }
+        );
+      }
+
+      if (tag?.type !== "complete") {
+        this.pending = buffer.slice(contentEnd);
+        break;
+      }
+
+      if (isText) {
+        this.blockCount++;
+        parts.push({ type: "reasoning-start", id: this.reasoningId });
+        this.state = tags.openEnd ? "open-tag" : "reasoning";
+      } else {
+        parts.push({ type: "reasoning-end", id: this.reasoningId });
+        this.state = "text";
+      }
+      buffer = buffer.slice(tag.index + tag.length);
+    }
+
+    return parts;
+  }
+}
+
+/**
+ * Converts a complete answer into text and reasoning content, for blocking responses.
+ */
+export function extractReasoningContent(
+  answer: string,
+  format: DifyReasoningFormat = "think"
+): LanguageModelV2Content[] {
+  const extractor = new DifyReasoningExtractor(format);
+  const content: LanguageModelV2Content[] = [];
+  let current: { type: "text" | "reasoning"; text: string } | undefined;
+
+  for (const part of [...extractor.process(answer), ...extractor.flush()]) {
+    switch (part.type) {
+      case "text": {
+        if (current?.type !== "text") {
+          current = { type: "text", text: "" };
+          content.push(current);
+        }
+        current.text += part.text;
+        break;
+      }
+      case "reasoning-start": {
+        current = { type: "reasoning", text: "" };
+        content.push(current);
+        break;
+      }
+      case "reasoning-delta": {
+        current!.text += part.text;
+        break;
+      }
+      case "reasoning-end": {
+        current = undefined;
+        break;
+      }
+    }
+  }
+
+  return content;
+}
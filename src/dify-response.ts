@@ -0,0 +1,122 @@
+import type {
+  LanguageModelV2Content,
+  LanguageModelV2FinishReason,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+  SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import {
+  createEventSourceResponseHandler,
+  createJsonResponseHandler,
+  type ParseResult,
+  type ResponseHandler,
+} from "@ai-sdk/provider-utils";
+import type { ZodType } from "zod";
+import { difyStreamEventSchema, type DifyStreamEvent } from "./dify-chat-schema";
+
+export type DifyResponse<T> =
+  | { type: "json"; value: T }
+  | { type: "stream"; value: ReadableStream<ParseResult<DifyStreamEvent>> };
+
+/**
+ * Dify may answer a blocking request with an event stream (e.g. agent apps or
+ * `responseMode: "streaming"`), so the content type decides how the body is parsed.
+ */
+export const createDifyResponseHandler =
+  <T>(responseSchema: ZodType<any>): ResponseHandler<DifyResponse<T>> =>
+  async (options) => {
+    const contentType = options.response.headers?.get?.("content-type") ?? "";
+
+    if (contentType.includes("text/event-stream")) {
+      const { value, ...rest } = await createEventSourceResponseHandler(
+        difyStreamEventSchema as any
+      )(options);
+      return {
+        ...rest,
+        value: {
+          type: "stream",
+          value: value as ReadableStream<ParseResult<DifyStreamEvent>>,
+        },
+      };
+    }
+
+    const { value, ...rest } = await createJsonResponseHandler(
+      responseSchema as any
+    )(options);
+    return { ...rest, value: { type: "json", value: value as T } };
+  };
+
+/**
+ * Reads a transformed stream to the end and assembles the `doGenerate` result from its parts.
+ */
+export async function collectStreamParts(
+  stream: ReadableStream<LanguageModelV2StreamPart>
+) {
+  let content: LanguageModelV2Content[] = [];
+  const openParts = new Map<string, { type: "text" | "reasoning"; text: string }>();
+  let finishReason: LanguageModelV2FinishReason = "unknown";
+  let usage: LanguageModelV2Usage = {
+    inputTokens: undefined,
+    outputTokens: undefined,
+    totalTokens: undefined,
+  };
+  let providerMetadata: SharedV2ProviderMetadata | undefined;
+  let responseId: string | undefined;
+
+  const reader = stream.getReader();
+  while (true) {
+    const {value: part, done} = await reader.read();
+    if (done) break;
+
+    switch (part.type) {
+      case "text-start":
+      case "reasoning-start": {
+        if (part.providerMetadata?.dify?.replacement) {
+          // output moderation replaces the text and reasoning received so far
+          content = content.filter(
+            (contentPart) =>
+              contentPart.type !== "text" && contentPart.type !== "reasoning"
+          );
+        }
+        const contentPart = {
+          type: part.type === "text-start" ? "text" as const : "reasoning" as const,
+          text: "",
+        };
+        openParts.set(`${contentPart.type}:${part.id}`, contentPart);
+        content.push(contentPart);
+        break;
+      }
+      case "text-delta":
+      case "reasoning-delta": {
+        const type = part.type === "text-delta" ? "text" : "reasoning";
+        const contentPart = openParts.get(`${type}:${part.id}`);
+        if (contentPart) {
+          contentPart.text += part.delta;
+        }
+        break;
+      }
+      case "file":
+      case "source":
+      case "tool-call":
+      case "tool-result": {
+        content.push(part);
+        break;
+      }
+      case "response-metadata": {
+        responseId = part.id;
+        break;
+      }
+      case "finish": {
+        finishReason = part.finishReason;
+        usage = part.usage;
+        providerMetadata = part.providerMetadata;
+        break;
+      }
+      case "error": {
+        throw part.error;
+      }
+    }
+  }
+
+  return {content, finishReason, usage, providerMetadata, responseId};
+}
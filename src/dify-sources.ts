@@ -0,0 +1,32 @@
+import type { JSONValue, LanguageModelV2Source } from "@ai-sdk/provider";
+import type { RetrieverResource } from "./dify-chat-schema";
+
+/**
+ * Converts the knowledge base citations of an answer into document sources.
+ * The details of the cited segment are kept in the `dify` provider metadata.
+ */
+export function convertRetrieverResources(
+  resources: RetrieverResource[] | undefined
+): LanguageModelV2Source[] {
+  return (resources ?? []).map((resource, index) => ({
+    type: "source",
+    sourceType: "document",
+    id: resource.segment_id ?? `${resource.document_id ?? "resource"}-${index}`,
+    // Dify cites text segments extracted from the document
+    mediaType: "text/plain",
+    title: resource.document_name ?? resource.dataset_name ?? "Document",
+    filename: resource.document_name,
+    providerMetadata: {
+      dify: {
+        position: (resource.position ?? index + 1) as JSONValue,
+        datasetId: (resource.dataset_id ?? null) as JSONValue,
+        datasetName: (resource.dataset_name ?? null) as JSONValue,
+        documentId: (resource.document_id ?? null) as JSONValue,
+        documentName: (resource.document_name ?? null) as JSONValue,
+        segmentId: (resource.segment_id ?? null) as JSONValue,
+        score: (resource.score ?? null) as JSONValue,
+        content: (resource.content ?? null) as JSONValue,
+      },
+    },
+  }));
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { DifySpeechModel } from "./dify-speech-model";
+
+function createAudioFetch() {
+  const calls: { url: string; options: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, options });
+    return new Response(new Uint8Array([73, 68, 51]), {
+      status: 200,
+      headers: { "Content-Type": "audio/mpeg" },
+    });
+  };
+  return { calls, fetch: fetch as any };
+}
+
+function makeModel(settings: any, fetch: any) {
+  return new DifySpeechModel("speech-app", settings, {
+    provider: "dify.speech",
+    baseURL: "https://mock.api/v1",
+    headers: () => ({ Authorization: "Bearer test" }),
+    fetch,
+  });
+}
+
+describe("DifySpeechModel", () => {
+  it("should post the text to /text-to-audio and return the audio", async () => {
+    const { calls, fetch } = createAudioFetch();
+    const model = makeModel({ voice: "alloy" }, fetch);
+
+    const result = await model.doGenerate({
+      text: "Hello there",
+      providerOptions: { dify: { user: "user-1" } },
+    });
+
+    expect(calls[0].url).toBe("https://mock.api/v1/text-to-audio");
+    expect(JSON.parse(calls[0].options.body)).toEqual({
+      text: "Hello there",
+      user: "user-1",
+      voice: "alloy",
+    });
+    expect(result.audio).toEqual(new Uint8Array([73, 68, 51]));
+    expect(result.warnings).toEqual([]);
+    expect(result.response.modelId).toBe("speech-app");
+  });
+
+  it("should pass the message id and warn about unsupported settings", async () => {
+    const { calls, fetch } = createAudioFetch();
+    const model = makeModel({ voice: "alloy" }, fetch);
+
+    const result = await model.doGenerate({
+      text: "",
+      voice: "echo",
+      speed: 1.5,
+      outputFormat: "wav",
+      providerOptions: { dify: { messageId: "msg1" } },
+    });
+
+    expect(JSON.parse(calls[0].options.body)).toMatchObject({
+      voice: "echo",
+      message_id: "msg1",
+    });
+    expect(result.warnings.map((warning: any) => warning.setting)).toEqual([
+      "outputFormat",
+      "speed",
+    ]);
+  });
+
+  it("should still read the user from the deprecated user-id header", async () => {
+    const { calls, fetch } = createAudioFetch();
+    const model = makeModel({}, fetch);
+
+    const result = await model.doGenerate({
+      text: "Hello there",
+      headers: { "user-id": "user-1" },
+    });
+
+    expect(JSON.parse(calls[0].options.body).user).toBe("user-1");
+    expect(calls[0].options.headers).not.toHaveProperty("user-id");
+    expect(result.warnings).toEqual([
+      {
+        type: "other",
+        message: 'The "user-id" header is deprecated. Use providerOptions.dify.user instead.',
+      },
+    ]);
+  });
+
+  it("should reject invalid provider options", async () => {
+    const { calls, fetch } = createAudioFetch();
+    const model = makeModel({}, fetch);
+
+    await expect(
+      model.doGenerate({ text: "Hi", providerOptions: { dify: { messageId: 42 } } })
+    ).rejects.toMatchObject({
+      name: "AI_InvalidArgumentError",
+      argument: "providerOptions.dify",
+    });
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,100 @@
+import type {
+  SpeechModelV2,
+  SpeechModelV2CallOptions,
+  SpeechModelV2CallWarning,
+} from "@ai-sdk/provider";
+import {
+  combineHeaders,
+  createBinaryResponseHandler,
+  postJsonToApi,
+} from "@ai-sdk/provider-utils";
+import type {
+  DifySpeechModelId,
+  DifySpeechSettings,
+} from "./dify-speech-settings";
+import { createDifyEndpoints, type DifyEndpoints } from "./dify-endpoints";
+import { difyFailedResponseHandler } from "./dify-error";
+import type { DifyModelConfig } from "./dify-model-config";
+import {
+  difySpeechProviderOptionsSchema,
+  resolveDifyAudioProviderOptions,
+} from "./dify-provider-options";
+
+/**
+ * Speech model for the text-to-speech of a Dify app (`/text-to-audio`).
+ * Dify picks the audio format and speed from the app's TTS settings.
+ */
+export class DifySpeechModel implements SpeechModelV2 {
+  readonly specificationVersion = "v2" as const;
+  readonly modelId: string;
+
+  private readonly endpoints: DifyEndpoints;
+  private readonly config: DifyModelConfig;
+
+  constructor(
+    modelId: DifySpeechModelId,
+    private settings: DifySpeechSettings,
+    config: DifyModelConfig
+  ) {
+    this.modelId = modelId;
+    this.config = config;
+    this.endpoints = createDifyEndpoints(this.config.baseURL);
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  async doGenerate(
+    options: SpeechModelV2CallOptions
+  ): Promise<Awaited<ReturnType<SpeechModelV2["doGenerate"]>>> {
+    const warnings: SpeechModelV2CallWarning[] = [];
+    for (const setting of [
+      "outputFormat",
+      "instructions",
+      "speed",
+      "language",
+    ] as const) {
+      if (options[setting] != null) {
+        warnings.push({
+          type: "unsupported-setting",
+          setting,
+          details: "Dify uses the text-to-speech settings of the app",
+        });
+      }
+    }
+
+    const { providerOptions, headers, warnings: optionWarnings } =
+      resolveDifyAudioProviderOptions(difySpeechProviderOptionsSchema, options);
+    warnings.push(...optionWarnings);
+
+    const body = {
+      text: options.text,
+      user: providerOptions.user ?? "you_should_pass_user-id",
+      voice: options.voice ?? this.settings.voice,
+      // Dify reads the text of a stored message instead when a message id is given
+      message_id: providerOptions.messageId,
+    };
+
+    const { value: audio, responseHeaders } = await postJsonToApi({
+      url: this.endpoints.textToAudio,
+      headers: combineHeaders(this.config.headers(headers), headers),
+      body,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler: createBinaryResponseHandler(),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      audio,
+      warnings,
+      request: { body: JSON.stringify(body) },
+      response: {
+        timestamp: new Date(),
+        modelId: this.modelId,
+        headers: responseHeaders,
+      },
+    };
+  }
+}
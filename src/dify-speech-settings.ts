@@ -0,0 +1,19 @@
+// Define model IDs for Dify text-to-speech, the ID of the app whose voice settings are used
+export type DifySpeechModelId = string;
+
+/**
+ * Settings for the Dify text-to-audio API.
+ */
+export interface DifySpeechSettings {
+  /**
+   * Voice to use when the call does not set one.
+   * Defaults to the voice configured in the Dify app.
+   */
+  voice?: string;
+
+  /**
+   * API key of the Dify application.
+   * Defaults to the provider's `apiKey`, then to the `DIFY_API_KEY` environment variable.
+   */
+  apiKey?: string;
+}
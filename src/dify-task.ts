@@ -0,0 +1,86 @@
+import {
+  createJsonResponseHandler,
+  postJsonToApi,
+  type FetchFunction,
+} from "@ai-sdk/provider-utils";
+import { stopResponseSchema } from "./dify-chat-schema";
+import { difyFailedResponseHandler } from "./dify-error";
+
+export interface DifyStopOptions {
+  /**
+   * The kind of app that runs the task. Defaults to `chat`, which also covers agent
+   * and chatflow apps.
+   */
+  appType?: "chat" | "completion" | "workflow";
+
+  /**
+   * API key of the app, when it differs from the provider's default key.
+   */
+  apiKey?: string;
+}
+
+/**
+ * Stops a running Dify task. Only the user that started the task can stop it.
+ */
+export async function stopDifyTask({
+  url,
+  headers,
+  fetch,
+  user,
+}: {
+  url: string;
+  headers: Record<string, string | undefined>;
+  fetch?: FetchFunction;
+  user: string;
+}): Promise<void> {
+  await postJsonToApi({
+    url,
+    headers,
+    body: { user },
+    failedResponseHandler: difyFailedResponseHandler,
+    successfulResponseHandler: createJsonResponseHandler(
+      stopResponseSchema as any
+    ),
+    fetch,
+  });
+}
+
+/**
+ * Aborting the fetch does not stop Dify from generating, so the task of the stream
+ * is stopped explicitly when the abort signal fires before the stream has finished.
+ * The returned callbacks are meant to be passed to the stream transformer.
+ */
+export function stopTaskOnAbort({
+  abortSignal,
+  stop,
+}: {
+  abortSignal?: AbortSignal;
+  stop: (taskId: string) => Promise<void>;
+}) {
+  let taskId: string | undefined;
+  let isDone = false;
+
+  const onAbort = () => {
+    if (taskId == null || isDone) {
+      return;
+    }
+    isDone = true;
+    // best effort, the caller has already given up on the response
+    stop(taskId).catch(() => {});
+  };
+
+  abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+  return {
+    onTaskId(id: string) {
+      taskId = id;
+      if (abortSignal?.aborted) {
+        onAbort();
+      }
+    },
+    onFinish() {
+      isDone = true;
+      abortSignal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { DifyTranscriptionModel } from "./dify-transcription-model";
+
+function createTextFetch() {
+  const calls: { url: string; options: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, options });
+    return new Response(JSON.stringify({ text: "Turn on the lights" }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+  return { calls, fetch: fetch as any };
+}
+
+function makeModel(fetch: any) {
+  return new DifyTranscriptionModel("voice-app", {}, {
+    provider: "dify.transcription",
+    baseURL: "https://mock.api/v1",
+    headers: () => ({
+      Authorization: "Bearer test",
+      "Content-Type": "application/json",
+    }),
+    fetch,
+  });
+}
+
+describe("DifyTranscriptionModel", () => {
+  it("should upload the audio as multipart form data", async () => {
+    const { calls, fetch } = createTextFetch();
+
+    const result = await makeModel(fetch).doGenerate({
+      audio: new Uint8Array([1, 2, 3]),
+      mediaType: "audio/mpeg",
+      providerOptions: { dify: { user: "user-1" } },
+    });
+
+    expect(calls[0].url).toBe("https://mock.api/v1/audio-to-text");
+    expect(calls[0].options.headers).toEqual({ Authorization: "Bearer test" });
+    const formData = calls[0].options.body as FormData;
+    const file = formData.get("file") as File;
+    expect(file.name).toBe("audio.mp3");
+    expect(file.type).toBe("audio/mpeg");
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(formData.get("user")).toBe("user-1");
+    expect(result.text).toBe("Turn on the lights");
+    expect(result.segments).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("should decode base64 audio and warn about unsupported formats", async () => {
+    const { calls, fetch } = createTextFetch();
+
+    const result = await makeModel(fetch).doGenerate({
+      audio: "AQID",
+      mediaType: "audio/flac",
+    });
+
+    const file = (calls[0].options.body as FormData).get("file") as File;
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].type).toBe("other");
+  });
+
+  it("should still read the user from the deprecated user-id header", async () => {
+    const { calls, fetch } = createTextFetch();
+
+    const result = await makeModel(fetch).doGenerate({
+      audio: new Uint8Array([1, 2, 3]),
+      mediaType: "audio/mpeg",
+      headers: { "user-id": "user-1" },
+    });
+
+    expect(calls[0].options.headers).toEqual({ Authorization: "Bearer test" });
+    expect((calls[0].options.body as FormData).get("user")).toBe("user-1");
+    expect(result.warnings).toEqual([
+      {
+        type: "other",
+        message: 'The "user-id" header is deprecated. Use providerOptions.dify.user instead.',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import type {
+  TranscriptionModelV2,
+  TranscriptionModelV2CallOptions,
+  TranscriptionModelV2CallWarning,
+} from "@ai-sdk/provider";
+import {
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  mediaTypeToExtension,
+  postFormDataToApi,
+} from "@ai-sdk/provider-utils";
+import type {
+  DifyTranscriptionModelId,
+  DifyTranscriptionSettings,
+} from "./dify-transcription-settings";
+import {
+  audioToTextResponseSchema,
+  type AudioToTextResponse,
+} from "./dify-chat-schema";
+import { createDifyEndpoints, type DifyEndpoints } from "./dify-endpoints";
+import { difyFailedResponseHandler } from "./dify-error";
+import { withoutContentType } from "./dify-files";
+import type { DifyModelConfig } from "./dify-model-config";
+import {
+  difyTranscriptionProviderOptionsSchema,
+  resolveDifyAudioProviderOptions,
+} from "./dify-provider-options";
+
+// audio formats accepted by /audio-to-text
+const supportedExtensions = ["mp3", "mp4", "mpeg", "mpga", "m4a", "wav", "webm"];
+
+/**
+ * Transcription model for the speech-to-text of a Dify app (`/audio-to-text`).
+ * Dify only returns the text, without segments, language or duration.
+ */
+export class DifyTranscriptionModel implements TranscriptionModelV2 {
+  readonly specificationVersion = "v2" as const;
+  readonly modelId: string;
+
+  private readonly endpoints: DifyEndpoints;
+  private readonly config: DifyModelConfig;
+
+  constructor(
+    modelId: DifyTranscriptionModelId,
+    private settings: DifyTranscriptionSettings,
+    config: DifyModelConfig
+  ) {
+    this.modelId = modelId;
+    this.config = config;
+    this.endpoints = createDifyEndpoints(this.config.baseURL);
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  async doGenerate(
+    options: TranscriptionModelV2CallOptions
+  ): Promise<Awaited<ReturnType<TranscriptionModelV2["doGenerate"]>>> {
+    const warnings: TranscriptionModelV2CallWarning[] = [];
+    const extension = mediaTypeToExtension(options.mediaType);
+    if (!supportedExtensions.includes(extension)) {
+      warnings.push({
+        type: "other",
+        message: `Dify may not accept ${options.mediaType} audio, supported formats are ${supportedExtensions.join(", ")}`,
+      });
+    }
+
+    const { providerOptions, headers, warnings: optionWarnings } =
+      resolveDifyAudioProviderOptions(
+        difyTranscriptionProviderOptionsSchema,
+        options
+      );
+    warnings.push(...optionWarnings);
+    const userId = providerOptions.user ?? "you_should_pass_user-id";
+
+    const audio =
+      typeof options.audio === "string"
+        ? convertBase64ToUint8Array(options.audio)
+        : options.audio;
+
+    const formData = new FormData();
+    formData.append(
+      "file",
+      new Blob([audio as Uint8Array<ArrayBuffer>], { type: options.mediaType }),
+      `audio.${extension}`
+    );
+    formData.append("user", userId);
+
+    const { value, responseHeaders, rawValue } = await postFormDataToApi({
+      url: this.endpoints.audioToText,
+      headers: withoutContentType(
+        combineHeaders(this.config.headers(headers), headers)
+      ),
+      formData,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        audioToTextResponseSchema as any
+      ),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      text: (value as AudioToTextResponse).text,
+      segments: [],
+      language: undefined,
+      durationInSeconds: undefined,
+      warnings,
+      response: {
+        timestamp: new Date(),
+        modelId: this.modelId,
+        headers: responseHeaders,
+        body: rawValue,
+      },
+    };
+  }
+}
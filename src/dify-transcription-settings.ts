@@ -0,0 +1,13 @@
+// Define model IDs for Dify speech-to-text, the ID of the app whose settings are used
+export type DifyTranscriptionModelId = string;
+
+/**
+ * Settings for the Dify audio-to-text API.
+ */
+export interface DifyTranscriptionSettings {
+  /**
+   * API key of the Dify application.
+   * Defaults to the provider's `apiKey`, then to the `DIFY_API_KEY` environment variable.
+   */
+  apiKey?: string;
+}
@@ -0,0 +1,169 @@
+import type {
+  NodeFinishedEvent,
+  NodeStartedEvent,
+  WorkflowFinishedEvent,
+  WorkflowStartedEvent,
+} from "./dify-chat-schema";
+
+export interface DifyNodeUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Execution details of a single workflow node.
+ */
+export interface DifyNodeExecution {
+  id: string;
+  nodeId: string;
+  nodeType: string;
+  title?: string;
+  index?: number;
+  status: string;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+  /**
+   * Duration in seconds.
+   */
+  duration?: number;
+  usage?: DifyNodeUsage;
+  inputs?: Record<string, any>;
+  outputs?: Record<string, any>;
+}
+
+/**
+ * Execution report of a Dify workflow run, built from the
+ * `workflow_started`, `node_started`, `node_finished` and `workflow_finished` events.
+ */
+export interface DifyWorkflowExecution {
+  workflowId?: string;
+  workflowRunId?: string;
+  status: string;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+  /**
+   * Duration in seconds.
+   */
+  duration?: number;
+  totalTokens?: number;
+  totalSteps?: number;
+  nodes: DifyNodeExecution[];
+}
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Collects workflow and node events of a single Dify run into a `DifyWorkflowExecution` report.
+ */
+export class DifyWorkflowExecutionCollector {
+  private execution: DifyWorkflowExecution | undefined;
+  private readonly nodes = new Map<string, DifyNodeExecution>();
+
+  workflowStarted(event: WorkflowStartedEvent) {
+    this.execution = {
+      ...this.execution,
+      workflowId: event.data?.workflow_id,
+      workflowRunId: event.workflow_run_id ?? event.data?.id,
+      status: "running",
+      startedAt: toNumber(event.data?.created_at),
+      nodes: [],
+    };
+  }
+
+  nodeStarted(event: NodeStartedEvent) {
+    const data = event.data ?? ({} as NodeStartedEvent["data"]);
+    this.nodes.set(data.id, {
+      id: data.id,
+      nodeId: data.node_id,
+      nodeType: data.node_type,
+      title: data.title,
+      index: toNumber(data.index),
+      status: "running",
+      startedAt: toNumber(data.created_at),
+      inputs: data.inputs ?? undefined,
+    });
+  }
+
+  nodeFinished(event: NodeFinishedEvent) {
+    const data = event.data ?? ({} as NodeFinishedEvent["data"]);
+    const started = this.nodes.get(data.id);
+    const startedAt = toNumber(data.created_at) ?? started?.startedAt;
+    const finishedAt = toNumber(data.finished_at);
+    const metadata = data.execution_metadata ?? {};
+    const outputUsage = data.outputs?.usage ?? {};
+
+    const usage: DifyNodeUsage = {
+      promptTokens: toNumber(outputUsage.prompt_tokens),
+      completionTokens: toNumber(outputUsage.completion_tokens),
+      totalTokens:
+        toNumber(metadata.total_tokens) ?? toNumber(outputUsage.total_tokens),
+    };
+
+    this.nodes.set(data.id, {
+      ...started,
+      id: data.id,
+      nodeId: data.node_id ?? started?.nodeId,
+      nodeType: data.node_type ?? started?.nodeType,
+      title: data.title ?? started?.title,
+      index: toNumber(data.index) ?? started?.index,
+      status: data.status ?? "succeeded",
+      error: data.error ?? undefined,
+      startedAt,
+      finishedAt,
+      duration:
+        toNumber(data.elapsed_time) ??
+        (startedAt != null && finishedAt != null
+          ? finishedAt - startedAt
+          : undefined),
+      usage: Object.values(usage).some((value) => value != null)
+        ? usage
+        : undefined,
+      inputs: data.inputs ?? started?.inputs,
+      outputs: data.outputs ?? undefined,
+    });
+  }
+
+  workflowFinished(event: WorkflowFinishedEvent) {
+    const data = event.data ?? ({} as WorkflowFinishedEvent["data"]);
+    const startedAt = toNumber(data.created_at) ?? this.execution?.startedAt;
+    const finishedAt = toNumber(data.finished_at);
+
+    this.execution = {
+      nodes: [],
+      ...this.execution,
+      workflowId: data.workflow_id ?? this.execution?.workflowId,
+      workflowRunId:
+        event.workflow_run_id ?? data.id ?? this.execution?.workflowRunId,
+      status: data.status ?? "succeeded",
+      error: data.error || undefined,
+      startedAt,
+      finishedAt,
+      duration:
+        toNumber(data.elapsed_time) ??
+        (startedAt != null && finishedAt != null
+          ? finishedAt - startedAt
+          : undefined),
+      totalTokens: toNumber(data.total_tokens),
+      totalSteps: toNumber(data.total_steps),
+    };
+  }
+
+  /**
+   * Returns the report, or `undefined` when no workflow events were received.
+   */
+  getExecution(): DifyWorkflowExecution | undefined {
+    if (!this.execution && this.nodes.size === 0) {
+      return undefined;
+    }
+
+    return {
+      status: "running",
+      ...this.execution,
+      nodes: Array.from(this.nodes.values()),
+    };
+  }
+}
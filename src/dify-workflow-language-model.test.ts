@@ -0,0 +1,346 @@
+import { describe, it, expect } from "vitest";
+import { DifyWorkflowLanguageModel } from "./dify-workflow-language-model";
+
+function createMockFetch(mockResponse: any) {
+  const calls: { url: string; body: any }[] = [];
+  const fetch = async (url: string, options: any) => {
+    calls.push({ url, body: JSON.parse(options.body) });
+    return mockResponse;
+  };
+  return Object.assign(fetch, { calls });
+}
+
+function createStreamingFetch(events: any[]) {
+  const text = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+  return createMockFetch({
+    ok: true,
+    headers: new Headers({ "Content-Type": "text/event-stream" }),
+    body: new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(text));
+        controller.close();
+      },
+    }),
+    status: 200,
+  });
+}
+
+async function readAll(stream: ReadableStream<any>) {
+  const parts: any[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return parts;
+}
+
+function makeModel(settings: any, fetch: any) {
+  return new DifyWorkflowLanguageModel("workflow-app", settings, {
+    provider: "dify.workflow",
+    baseURL: "https://mock.api/v1",
+    headers: () => ({ Authorization: "Bearer test" }),
+    fetch,
+  });
+}
+
+const prompt = [
+  { role: "user", content: [{ type: "text", text: "Summarize this" }] },
+] as any;
+
+const workflowStarted = {
+  event: "workflow_started",
+  workflow_run_id: "run1",
+  task_id: "task1",
+  data: { id: "run1", workflow_id: "wf1", created_at: 100, inputs: {} },
+};
+
+const workflowFinished = (outputs: Record<string, any>) => ({
+  event: "workflow_finished",
+  workflow_run_id: "run1",
+  task_id: "task1",
+  data: {
+    id: "run1",
+    workflow_id: "wf1",
+    status: "succeeded",
+    outputs,
+    error: null,
+    elapsed_time: 2,
+    total_tokens: 30,
+    total_steps: 3,
+    created_at: 100,
+    finished_at: 102,
+  },
+});
+
+describe("DifyWorkflowLanguageModel", () => {
+  it("should post the last user message as query input to /workflows/run", async () => {
+    const fetch = createStreamingFetch([workflowStarted, workflowFinished({ text: "Done" })]);
+    const model = makeModel({ inputs: { language: "en" } }, fetch);
+
+    const { stream } = await model.doStream({
+      prompt,
+      headers: { "user-id": "user-1" },
+    } as any);
+    await readAll(stream);
+
+    expect(fetch.calls[0].url).toBe("https://mock.api/v1/workflows/run");
+    expect(fetch.calls[0].body).toEqual({
+      inputs: { query: "Summarize this", language: "en" },
+      response_mode: "streaming",
+      user: "user-1",
+    });
+  });
+
+  it("should map text_chunk events to text deltas", async () => {
+    const fetch = createStreamingFetch([
+      workflowStarted,
+      { event: "text_chunk", workflow_run_id: "run1", data: { text: "Hello", from_variable_selector: ["llm", "text"] } },
+      { event: "text_chunk", workflow_run_id: "run1", data: { text: " world", from_variable_selector: ["llm", "text"] } },
+      workflowFinished({ text: "Hello world", score: 3 }),
+    ]);
+    const model = makeModel({}, fetch);
+
+    const { stream } = await model.doStream({ prompt } as any);
+    const parts = await readAll(stream);
+
+    expect(parts.filter((p) => p.type === "text-delta").map((p) => p.delta)).toEqual([
+      "Hello",
+      " world",
+    ]);
+    const finishPart = parts.find((p) => p.type === "finish");
+    expect(finishPart.finishReason).toBe("stop");
+    expect(finishPart.usage.totalTokens).toBe(30);
+    expect(finishPart.providerMetadata.dify).toMatchObject({
+      workflowRunId: "run1",
+      taskId: "task1",
+      status: "succeeded",
+      outputs: { text: "Hello world", score: 3 },
+      workflowExecution: { workflowId: "wf1", duration: 2 },
+    });
+  });
+
+  it("should emit the configured output variable when no text chunks are streamed", async () => {
+    const fetch = createStreamingFetch([
+      workflowStarted,
+      workflowFinished({ summary: "Short summary", score: 3 }),
+    ]);
+    const model = makeModel({ outputVariable: "summary" }, fetch);
+
+    const { stream } = await model.doStream({ prompt } as any);
+    const parts = await readAll(stream);
+
+    expect(parts.filter((p) => p.type === "text-delta").map((p) => p.delta)).toEqual([
+      "Short summary",
+    ]);
+  });
+
+  it("should read the output variable from a blocking response", async () => {
+    const fetch = createMockFetch({
+      ok: true,
+      headers: new Map([["Content-Type", "application/json"]]),
+      text: async () =>
+        JSON.stringify({
+          workflow_run_id: "run1",
+          task_id: "task1",
+          data: workflowFinished({ answer: "42", details: { a: 1 } }).data,
+        }),
+      status: 200,
+    });
+    const model = makeModel(
+      { responseMode: "blocking", outputVariable: "answer", queryVariable: "question" },
+      fetch
+    );
+
+    const result = await model.doGenerate({ prompt } as any);
+
+    expect(fetch.calls[0].body.inputs).toEqual({ question: "Summarize this" });
+    expect(fetch.calls[0].body.response_mode).toBe("blocking");
+    expect(result.content).toEqual([{ type: "text", text: "42" }]);
+    expect(result.usage.totalTokens).toBe(30);
+    expect(result.providerMetadata?.dify?.outputs).toEqual({ answer: "42", details: { a: 1 } });
+  });
+
+  describe("finish reasons", () => {
+    const finishedWith = (data: Record<string, any>) => {
+      const event = workflowFinished({ text: "Done" });
+      return { ...event, data: { ...event.data, ...data } };
+    };
+
+    const streamFinish = async (events: any[]) => {
+      const model = makeModel({}, createStreamingFetch(events));
+      const { stream } = await model.doStream({ prompt } as any);
+      const parts = await readAll(stream);
+      return parts.find((p) => p.type === "finish");
+    };
+
+    it.each([
+      ["succeeded", {}, "stop"],
+      ["failed", { error: "Node failed" }, "error"],
+      ["stopped", {}, "other"],
+      ["partial-succeeded", { exceptions_count: 2 }, "other"],
+    ])("should map the %s status", async (status, data, finishReason) => {
+      const finish = await streamFinish([workflowStarted, finishedWith({ status, ...data })]);
+
+      expect(finish.finishReason).toBe(finishReason);
+      expect(finish.providerMetadata.dify.status).toBe(status);
+    });
+
+    it("should report handled node exceptions", async () => {
+      const finish = await streamFinish([
+        workflowStarted,
+        finishedWith({ exceptions_count: 1 }),
+      ]);
+
+      expect(finish.finishReason).toBe("other");
+      expect(finish.providerMetadata.dify.exceptionsCount).toBe(1);
+    });
+
+    it("should report length when an LLM node hit the token limit", async () => {
+      const finish = await streamFinish([
+        workflowStarted,
+        {
+          event: "node_finished",
+          workflow_run_id: "run1",
+          task_id: "task1",
+          data: {
+            id: "exec1",
+            node_id: "llm",
+            node_type: "llm",
+            status: "succeeded",
+            outputs: { text: "Cut o", finish_reason: "length" },
+          },
+        },
+        finishedWith({}),
+      ]);
+
+      expect(finish.finishReason).toBe("length");
+    });
+
+    it("should report an error event", async () => {
+      const finish = await streamFinish([
+        workflowStarted,
+        { event: "error", task_id: "task1", status: 500, code: "internal_server_error", message: "Oops" },
+      ]);
+
+      expect(finish.finishReason).toBe("error");
+    });
+
+    it("should map the status of a blocking response", async () => {
+      const fetch = createMockFetch({
+        ok: true,
+        headers: new Map([["Content-Type", "application/json"]]),
+        text: async () =>
+          JSON.stringify({
+            workflow_run_id: "run1",
+            task_id: "task1",
+            data: finishedWith({ status: "failed", error: "Node failed", outputs: {} }).data,
+          }),
+        status: 200,
+      });
+      const model = makeModel({ responseMode: "blocking" }, fetch);
+
+      const result = await model.doGenerate({ prompt } as any);
+
+      expect(result.finishReason).toBe("error");
+      expect(result.providerMetadata?.dify?.status).toBe("failed");
+    });
+  });
+
+  describe("json response format", () => {
+    const responseFormat = {
+      type: "json",
+      schema: { type: "object", properties: { name: { type: "string" } } },
+    };
+
+    it("should send the schema and stream the extracted JSON", async () => {
+      const fetch = createStreamingFetch([
+        workflowStarted,
+        workflowFinished({ text: 'Sure!\n```json\n{"name": "Ada"}\n```' }),
+      ]);
+      const model = makeModel({ jsonSchemaVariable: "schema" }, fetch);
+
+      const { stream } = await model.doStream({ prompt, responseFormat } as any);
+      const parts = await readAll(stream);
+
+      expect(fetch.calls[0].body.inputs.schema).toBe(JSON.stringify(responseFormat.schema));
+      expect(parts.filter((p) => p.type === "text-delta").map((p) => p.delta)).toEqual([
+        '{"name": "Ada"}',
+      ]);
+    });
+
+    it("should extract the JSON of a blocking response", async () => {
+      const fetch = createMockFetch({
+        ok: true,
+        headers: new Map([["Content-Type", "application/json"]]),
+        text: async () =>
+          JSON.stringify({
+            workflow_run_id: "run1",
+            task_id: "task1",
+            data: workflowFinished({ text: '<think>Easy.</think>{"name": "Ada"}' }).data,
+          }),
+        status: 200,
+      });
+      const model = makeModel({ responseMode: "blocking" }, fetch);
+
+      const result = await model.doGenerate({ prompt, responseFormat } as any);
+
+      expect(fetch.calls[0].body.inputs.json_schema).toBeDefined();
+      expect(result.content).toEqual([{ type: "text", text: '{"name": "Ada"}' }]);
+    });
+  });
+
+  it("should send mapped call options as inputs", async () => {
+    const fetch = createStreamingFetch([workflowStarted, workflowFinished({ text: "Done" })]);
+    const model = makeModel(
+      { callOptionInputs: { temperature: "temperature", maxOutputTokens: "max_tokens" } },
+      fetch
+    );
+
+    const { stream } = await model.doStream({
+      prompt,
+      temperature: 0.7,
+      maxOutputTokens: 500,
+      seed: 42,
+    } as any);
+    const parts = await readAll(stream);
+
+    expect(fetch.calls[0].body.inputs).toEqual({
+      query: "Summarize this",
+      temperature: 0.7,
+      max_tokens: 500,
+    });
+    expect(parts[0].warnings).toEqual([
+      expect.objectContaining({ type: "unsupported-setting", setting: "seed" }),
+    ]);
+  });
+
+  it("should warn about file parts that are not sent", async () => {
+    const fetch = createStreamingFetch([workflowStarted, workflowFinished({ text: "Done" })]);
+    const model = makeModel({}, fetch);
+
+    const { stream } = await model.doStream({
+      prompt: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Summarize this" },
+            { type: "file", mediaType: "application/pdf", data: new URL("https://example.com/report.pdf") },
+          ],
+        },
+      ],
+    } as any);
+    const parts = await readAll(stream);
+
+    expect(fetch.calls[0].body).not.toHaveProperty("files");
+    expect(parts[0].warnings).toEqual([
+      {
+        type: "other",
+        message:
+          "1 file part(s) of the prompt were not sent to Dify. " +
+          "Pass files of workflow apps in providerOptions.dify.files or as inputs.",
+      },
+    ]);
+  });
+});
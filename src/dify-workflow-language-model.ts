@@ -0,0 +1,485 @@
+import {
+  InvalidPromptError,
+  type JSONValue,
+  type LanguageModelV2,
+  type LanguageModelV2CallOptions,
+  type LanguageModelV2Content,
+  type LanguageModelV2StreamPart,
+  type LanguageModelV2Usage,
+  type SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import {
+  combineHeaders,
+  createEventSourceResponseHandler,
+  postJsonToApi,
+  type ParseResult,
+} from "@ai-sdk/provider-utils";
+import type {
+  DifyWorkflowModelId,
+  DifyWorkflowSettings,
+} from "./dify-workflow-settings";
+import {
+  difyStreamEventSchema,
+  workflowRunResponseSchema,
+  type DifyStreamEvent,
+  type ErrorEvent,
+  type NodeFinishedEvent,
+  type NodeStartedEvent,
+  type TextChunkEvent,
+  type WorkflowFinishedEvent,
+  type WorkflowRunResponse,
+  type WorkflowStartedEvent,
+} from "./dify-chat-schema";
+import { DifyWorkflowExecutionCollector } from "./dify-workflow-execution";
+import type { ChatStreamOptions } from "./dify-chat-stream";
+import { stopDifyTask, stopTaskOnAbort } from "./dify-task";
+import { createDifyEndpoints, type DifyEndpoints } from "./dify-endpoints";
+import {
+  createDifyStreamError,
+  difyFailedResponseHandler,
+} from "./dify-error";
+import {
+  isLengthTruncatedNode,
+  mapDifyFinishReason,
+} from "./dify-finish-reason";
+import { collectStreamParts, createDifyResponseHandler } from "./dify-response";
+import type { DifyModelConfig } from "./dify-model-config";
+import { validateDifyInputs } from "./dify-app";
+import { resolveDifyProviderOptions } from "./dify-provider-options";
+import { getCallOptionInputs } from "./dify-call-options";
+import {
+  extractJsonContent,
+  getJsonSchemaInputs,
+  withJsonResponseFormat,
+} from "./dify-json-response";
+
+/**
+ * Language model for Dify workflow apps (`/workflows/run`).
+ * The workflow has no chat answer, so the text is taken from `text_chunk` events
+ * and from an output variable of the finished run.
+ */
+export class DifyWorkflowLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2" as const;
+  readonly modelId: string;
+  readonly supportedUrls: Record<string, RegExp[]> = {};
+
+  private readonly endpoints: DifyEndpoints;
+  private readonly config: DifyModelConfig;
+
+  constructor(
+    modelId: DifyWorkflowModelId,
+    private settings: DifyWorkflowSettings,
+    config: DifyModelConfig
+  ) {
+    this.modelId = modelId;
+    this.config = config;
+    this.endpoints = createDifyEndpoints(this.config.baseURL);
+    if (!this.settings.responseMode) {
+      this.settings.responseMode = "streaming";
+    }
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  async doGenerate(
+    options: LanguageModelV2CallOptions
+  ): Promise<Awaited<ReturnType<LanguageModelV2["doGenerate"]>>> {
+    const { abortSignal } = options;
+    const { body: requestBody, warnings } = this.getRequestBody(options);
+    if (this.settings.validateInputs) {
+      await validateDifyInputs(this.config, requestBody.inputs, abortSignal);
+    }
+
+    const { responseHeaders, value: response } = await postJsonToApi({
+      url: this.endpoints.workflowsRun,
+      headers: combineHeaders(this.config.headers(options.headers), options.headers),
+      body: requestBody,
+      abortSignal,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler: createDifyResponseHandler<WorkflowRunResponse>(
+        workflowRunResponseSchema
+      ),
+      fetch: this.config.fetch,
+    });
+
+    if (response.type === "stream") {
+      const result = await collectStreamParts(
+        withJsonResponseFormat(
+          response.value.pipeThrough(
+            this.createStreamTransformer({
+              ...this.stopTaskOnAbort(options, requestBody.user),
+              url: this.endpoints.workflowsRun,
+              requestBodyValues: requestBody,
+              warnings,
+            })
+          ),
+          options.responseFormat
+        )
+      );
+
+      return {
+        ...result,
+        warnings,
+        request: { body: JSON.stringify(requestBody) },
+        response: {
+          id: result.responseId,
+          timestamp: new Date(),
+          headers: responseHeaders,
+        },
+      };
+    }
+
+    const { data, task_id, workflow_run_id } = response.value;
+    const outputs = data.outputs ?? {};
+    const text = this.getOutputText(outputs);
+    const content: LanguageModelV2Content[] = [];
+
+    if (text) {
+      content.push({ type: "text", text });
+    }
+
+    return {
+      content:
+        options.responseFormat?.type === "json"
+          ? extractJsonContent(content)
+          : content,
+      finishReason: mapDifyFinishReason({
+        status: data.status,
+        exceptionsCount: data.exceptions_count,
+        isFinished: true,
+      }),
+      usage: {
+        inputTokens: undefined,
+        outputTokens: undefined,
+        totalTokens: data.total_tokens,
+      },
+      warnings,
+      providerMetadata: {
+        dify: {
+          workflowRunId: workflow_run_id,
+          taskId: task_id,
+          status: data.status,
+          ...(data.exceptions_count != null
+            ? { exceptionsCount: data.exceptions_count }
+            : {}),
+          outputs: outputs as JSONValue,
+        },
+      },
+      request: { body: JSON.stringify(requestBody) },
+      response: {
+        id: workflow_run_id,
+        timestamp:
+          data.created_at != null ? new Date(data.created_at * 1000) : new Date(),
+        headers: responseHeaders,
+      },
+    };
+  }
+
+  async doStream(
+    options: LanguageModelV2CallOptions
+  ): Promise<Awaited<ReturnType<LanguageModelV2["doStream"]>>> {
+    const { abortSignal } = options;
+    const { body: requestBody, warnings } = this.getRequestBody(options);
+    if (this.settings.validateInputs) {
+      await validateDifyInputs(this.config, requestBody.inputs, abortSignal);
+    }
+    const body = { ...requestBody, response_mode: "streaming" };
+
+    const { responseHeaders, value: responseStream } = await postJsonToApi({
+      url: this.endpoints.workflowsRun,
+      headers: combineHeaders(this.config.headers(options.headers), options.headers),
+      body,
+      failedResponseHandler: difyFailedResponseHandler,
+      successfulResponseHandler: createEventSourceResponseHandler(
+        difyStreamEventSchema as any
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      stream: withJsonResponseFormat(
+        (
+          responseStream as ReadableStream<ParseResult<DifyStreamEvent>>
+        ).pipeThrough(
+          this.createStreamTransformer({
+            ...this.stopTaskOnAbort(options, body.user),
+            url: this.endpoints.workflowsRun,
+            requestBodyValues: body,
+            warnings,
+          })
+        ),
+        options.responseFormat
+      ),
+      request: { body: JSON.stringify(body) },
+      response: { headers: responseHeaders },
+    };
+  }
+
+  /**
+   * Maps workflow SSE events to AI SDK stream parts. When the workflow does not stream
+   * `text_chunk` events, the output variable is emitted as text once the run has finished.
+   */
+  private createStreamTransformer(
+    streamOptions: ChatStreamOptions = {}
+  ): TransformStream<
+    ParseResult<DifyStreamEvent>,
+    LanguageModelV2StreamPart
+  > {
+    const getOutputText = (outputs: Record<string, any>) =>
+      this.getOutputText(outputs);
+    const workflowExecution = new DifyWorkflowExecutionCollector();
+    const state = {
+      isActiveText: false,
+      hasText: false,
+      hasResponseMetadata: false,
+      isFinished: false,
+      hasError: false,
+      isLengthTruncated: false,
+      workflowRunId: undefined as string | undefined,
+      taskId: undefined as string | undefined,
+      status: undefined as string | undefined,
+      exceptionsCount: undefined as number | undefined,
+      outputs: undefined as Record<string, any> | undefined,
+      usage: {
+        inputTokens: undefined,
+        outputTokens: undefined,
+        totalTokens: undefined,
+      } as LanguageModelV2Usage,
+    };
+
+    const enqueueText = (
+      text: string,
+      controller: TransformStreamDefaultController<LanguageModelV2StreamPart>
+    ) => {
+      if (!state.isActiveText) {
+        state.isActiveText = true;
+        controller.enqueue({ type: "text-start", id: "answer" });
+      }
+      state.hasText = true;
+      controller.enqueue({ type: "text-delta", id: "answer", delta: text });
+    };
+
+    return new TransformStream<
+      ParseResult<DifyStreamEvent>,
+      LanguageModelV2StreamPart
+    >({
+      start(controller) {
+        controller.enqueue({
+          type: "stream-start",
+          warnings: streamOptions.warnings ?? [],
+        });
+      },
+
+      transform(chunk, controller) {
+        if (!chunk.success) {
+          controller.enqueue({ type: "error", error: chunk.error });
+          return;
+        }
+        const data = chunk.value;
+        if (data.task_id != null && data.task_id !== state.taskId) {
+          state.taskId = data.task_id;
+          streamOptions.onTaskId?.(data.task_id);
+        }
+        if (typeof data.workflow_run_id === "string") {
+          state.workflowRunId = data.workflow_run_id;
+        }
+
+        switch (data.event) {
+          case "workflow_started": {
+            workflowExecution.workflowStarted(data as WorkflowStartedEvent);
+            if (!state.hasResponseMetadata) {
+              state.hasResponseMetadata = true;
+              controller.enqueue({
+                type: "response-metadata",
+                id: state.workflowRunId,
+                timestamp:
+                  data.created_at != null
+                    ? new Date(data.created_at * 1000)
+                    : undefined,
+              });
+            }
+            break;
+          }
+          case "node_started": {
+            workflowExecution.nodeStarted(data as NodeStartedEvent);
+            break;
+          }
+          case "node_finished": {
+            workflowExecution.nodeFinished(data as NodeFinishedEvent);
+            if (isLengthTruncatedNode(data as NodeFinishedEvent)) {
+              state.isLengthTruncated = true;
+            }
+            break;
+          }
+          case "text_chunk": {
+            const text = (data as TextChunkEvent).data?.text;
+            if (text) {
+              enqueueText(text, controller);
+            }
+            break;
+          }
+          case "workflow_finished": {
+            const finishedData = (data as WorkflowFinishedEvent).data;
+            workflowExecution.workflowFinished(data as WorkflowFinishedEvent);
+            state.isFinished = true;
+            state.status = finishedData?.status;
+            state.exceptionsCount = finishedData?.exceptions_count;
+            state.outputs = finishedData?.outputs ?? {};
+            state.usage.totalTokens = finishedData?.total_tokens;
+
+            if (!state.hasText) {
+              const text = getOutputText(state.outputs);
+              if (text) {
+                enqueueText(text, controller);
+              }
+            }
+            break;
+          }
+          case "error": {
+            state.hasError = true;
+            controller.enqueue({
+              type: "error",
+              error: createDifyStreamError(data as ErrorEvent, streamOptions),
+            });
+            break;
+          }
+        }
+
+        controller.enqueue({ type: "raw", rawValue: data });
+      },
+
+      flush(controller) {
+        streamOptions.onFinish?.();
+        if (state.isActiveText) {
+          controller.enqueue({ type: "text-end", id: "answer" });
+          state.isActiveText = false;
+        }
+
+        const execution = workflowExecution.getExecution();
+        const providerMetadata: SharedV2ProviderMetadata = {
+          dify: {
+            workflowRunId: state.workflowRunId as JSONValue,
+            taskId: state.taskId as JSONValue,
+            status: state.status as JSONValue,
+            ...(state.exceptionsCount != null
+              ? { exceptionsCount: state.exceptionsCount }
+              : {}),
+            outputs: (state.outputs ?? null) as JSONValue,
+            ...(execution
+              ? { workflowExecution: execution as unknown as JSONValue }
+              : {}),
+          },
+        };
+
+        controller.enqueue({
+          type: "finish",
+          finishReason: mapDifyFinishReason(state),
+          usage: state.usage,
+          providerMetadata,
+        });
+      },
+    });
+  }
+
+  private getOutputText(outputs: Record<string, any>): string | undefined {
+    const outputVariable = this.settings.outputVariable ?? "text";
+    const value = outputs[outputVariable];
+
+    if (value !== undefined && value !== null) {
+      return typeof value === "string" ? value : JSON.stringify(value);
+    }
+
+    // fall back to the only string output of the workflow
+    const stringOutputs = Object.values(outputs).filter(
+      (output): output is string => typeof output === "string"
+    );
+    return stringOutputs.length === 1 ? stringOutputs[0] : undefined;
+  }
+
+  /**
+   * Stops the Dify task when the call is aborted while the response is streamed
+   */
+  private stopTaskOnAbort(options: LanguageModelV2CallOptions, user: string) {
+    return stopTaskOnAbort({
+      abortSignal: options.abortSignal,
+      stop: (taskId) =>
+        stopDifyTask({
+          url: this.endpoints.workflowTaskStop(taskId),
+          headers: combineHeaders(this.config.headers(options.headers), options.headers),
+          fetch: this.config.fetch,
+          user,
+        }),
+    });
+  }
+
+  /**
+   * Get the request body for the Dify workflow API and the warnings of the call
+   */
+  private getRequestBody(options: LanguageModelV2CallOptions) {
+    const messages = options.prompt;
+
+    if (!messages || !messages.length) {
+      throw new InvalidPromptError({
+        prompt: messages,
+        message: "No messages provided",
+      });
+    }
+
+    const latestMessage = messages[messages.length - 1];
+    const query =
+      latestMessage.role === "user"
+        ? latestMessage.content
+            .filter((part) => part.type === "text")
+            .map((part) => part.text)
+            .join(" ")
+        : "";
+
+    const { providerOptions, headers, warnings } =
+      resolveDifyProviderOptions(options);
+    const userId = providerOptions.user ?? "you_should_pass_user-id";
+    options.headers = headers;
+
+    // workflows take files as input variables, which file parts cannot be mapped to
+    const fileParts = messages.flatMap((message) =>
+      message.role === "user"
+        ? message.content.filter((part) => part.type === "file")
+        : []
+    );
+    if (fileParts.length > 0) {
+      warnings.push({
+        type: "other",
+        message:
+          `${fileParts.length} file part(s) of the prompt were not sent to Dify. ` +
+          "Pass files of workflow apps in providerOptions.dify.files or as inputs.",
+      });
+    }
+
+    const queryVariable = this.settings.queryVariable ?? "query";
+
+    const body = {
+      inputs: {
+        ...(queryVariable !== false && query ? { [queryVariable]: query } : {}),
+        ...getCallOptionInputs(
+          options,
+          this.settings.callOptionInputs,
+          warnings
+        ),
+        ...getJsonSchemaInputs(
+          options.responseFormat,
+          this.settings.jsonSchemaVariable ?? "json_schema",
+          warnings
+        ),
+        ...providerOptions.inputs,
+        ...(this.settings.inputs || {}),
+      },
+      response_mode: this.settings.responseMode,
+      user: userId,
+      ...(providerOptions.files ? { files: providerOptions.files } : {}),
+    };
+
+    return { body, warnings };
+  }
+}
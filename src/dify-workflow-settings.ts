@@ -0,0 +1,61 @@
+import type { DifyCallOptionInputs } from "./dify-call-options";
+
+// Define model IDs for Dify workflow apps
+export type DifyWorkflowModelId = string;
+
+/**
+ * Settings for the Dify workflow API.
+ */
+export interface DifyWorkflowSettings {
+  /**
+   * Additional inputs to send with the request.
+   * This corresponds to the 'inputs' field in Dify's API.
+   */
+  inputs?: Record<string, any>;
+
+  /**
+   * Input variable that receives the text of the last user message.
+   * Defaults to "query". Set to `false` to only send `inputs`.
+   */
+  queryVariable?: string | false;
+
+  /**
+   * Output variable of `outputs` that holds the final text.
+   * Defaults to "text". If it is missing and the workflow has a single string output, that one is used.
+   */
+  outputVariable?: string;
+
+  /**
+   * Response mode, defaults to "streaming".
+   */
+  responseMode?: "streaming" | "blocking";
+
+  /**
+   * Input variables that receive call options, e.g. `{ temperature: "temperature" }`.
+   * The model is configured in the Dify app, so call options that are not mapped are
+   * ignored with an `unsupported-setting` warning.
+   */
+  callOptionInputs?: DifyCallOptionInputs;
+
+  /**
+   * Input variable that receives the JSON schema of a `json` response format (e.g. from
+   * `generateObject`), so that the app can use it in its prompt. Defaults to
+   * "json_schema". Set to `false` to not send the schema. The JSON is extracted from
+   * the answer either way.
+   */
+  jsonSchemaVariable?: string | false;
+
+  /**
+   * Check the inputs against the `user_input_form` of the app before sending a request,
+   * and throw an `InvalidArgumentError` listing missing required variables, invalid
+   * `select` values and text over its max length. The app parameters are loaded once
+   * per provider. Defaults to false.
+   */
+  validateInputs?: boolean;
+
+  /**
+   * API key of the Dify application.
+   * Defaults to the provider's `apiKey`, then to the `DIFY_API_KEY` environment variable.
+   */
+  apiKey?: string;
+}
@@ -1,6 +1,84 @@
 export * from "./dify-provider";
+export type { DifyChatSettings, DifyChatModelId } from "./dify-chat-settings";
 export type {
+  DifyCompletionSettings,
+  DifyCompletionModelId,
+} from "./dify-completion-settings";
+export type {
+  DifyWorkflowSettings,
+  DifyWorkflowModelId,
+} from "./dify-workflow-settings";
+export type {
+  DifySpeechSettings,
+  DifySpeechModelId,
+} from "./dify-speech-settings";
+export type {
+  DifyTranscriptionSettings,
+  DifyTranscriptionModelId,
+} from "./dify-transcription-settings";
+export type {
+  DifyWorkflowExecution,
+  DifyNodeExecution,
+  DifyNodeUsage,
+} from "./dify-workflow-execution";
+export {
+  DifyAPIError,
+  DifyConversationNotExistsError,
+  DifyQuotaExceededError,
+  DifyAppUnavailableError,
+  DifyInvalidParamError,
+} from "./dify-error";
+export {
+  DifyMemoryConversationStore,
+  DifyJsonFileConversationStore,
+  type DifyConversationStore,
+} from "./dify-conversation-store";
+export type { DifyReasoningFormat } from "./dify-reasoning";
+export type { DifyHistoryMode } from "./dify-history";
+export type {
+  DifyCallOptionInputs,
+  DifyMappableCallOption,
+} from "./dify-call-options";
+export type {
+  DifyProviderOptions,
+  DifySpeechProviderOptions,
+  DifyTranscriptionProviderOptions,
+} from "./dify-provider-options";
+export type { DifyStopOptions } from "./dify-task";
+export type {
+  DifyAppParameters,
+  DifyAppParametersOptions,
+  DifyInputField,
+} from "./dify-app";
+export type {
+  DifyConversations,
+  DifyListConversationsOptions,
+  DifyRenameConversationOptions,
+  DifyDeleteConversationOptions,
+  DifyListMessagesOptions,
+} from "./dify-conversations";
+export type {
+  DifyFeedbackOptions,
+  DifyFeedbackRating,
+  DifySuggestedQuestionsOptions,
+} from "./dify-messages";
+export type {
+  RetrieverResource,
   CompletionResponse,
+  CompletionMessageResponse,
+  WorkflowRunResponse,
+  FileUploadResponse,
+  StopResponse,
+  Conversation,
+  ConversationListResponse,
+  ConversationMessage,
+  MessageListResponse,
+  FeedbackResponse,
+  SuggestedQuestionsResponse,
+  AudioToTextResponse,
+  AppInputField,
+  AppParametersResponse,
+  AppInfoResponse,
   ErrorResponse,
   DifyStreamEventBase,
   WorkflowStartedEvent,
@@ -9,11 +87,14 @@ export type {
   NodeFinishedEvent,
   MessageEvent,
   MessageEndEvent,
+  MessageReplaceEvent,
+  TextChunkEvent,
   TtsMessageEvent,
   TtsMessageEndEvent,
   AgentMessageEvent,
   AgentThoughtEvent,
   PingEvent,
+  ErrorEvent,
   DifyStreamEvent,
 } from "./dify-chat-schema"
 export * from './dify-chat-schema'